@@ -18,6 +18,7 @@ const categories = [
 	'Possible Errors',
 	'Security Vulnerability',
 	'Best Practices',
+	'Accessibility',
 	'Stylistic Issues',
 	'Extension Rules',
 	'SvelteKit',
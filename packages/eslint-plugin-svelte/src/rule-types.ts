@@ -19,6 +19,36 @@ export interface RuleOptions {
    * @deprecated
    */
   'svelte/@typescript-eslint/no-unnecessary-condition'?: Linter.RuleEntry<SvelteTypescriptEslintNoUnnecessaryCondition>
+  /**
+   * require alternative text for elements that convey information visually
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/a11y-alt-text/
+   */
+  'svelte/a11y-alt-text'?: Linter.RuleEntry<SvelteA11YAltText>
+  /**
+   * require keyboard event handlers on visible, non-interactive elements with click handlers
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/a11y-click-events-have-key-events/
+   */
+  'svelte/a11y-click-events-have-key-events'?: Linter.RuleEntry<SvelteA11YClickEventsHaveKeyEvents>
+  /**
+   * require `<label>` elements to be associated with a control
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/a11y-label-has-associated-control/
+   */
+  'svelte/a11y-label-has-associated-control'?: Linter.RuleEntry<SvelteA11YLabelHasAssociatedControl>
+  /**
+   * disallow the `autofocus` attribute
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/a11y-no-autofocus/
+   */
+  'svelte/a11y-no-autofocus'?: Linter.RuleEntry<SvelteA11YNoAutofocus>
+  /**
+   * disallow `role` attributes that are the same as the implicit role of the element
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/a11y-no-redundant-roles/
+   */
+  'svelte/a11y-no-redundant-roles'?: Linter.RuleEntry<SvelteA11YNoRedundantRoles>
+  /**
+   * require an ARIA role on static elements with interactive event handlers
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/a11y-no-static-element-interactions/
+   */
+  'svelte/a11y-no-static-element-interactions'?: Linter.RuleEntry<SvelteA11YNoStaticElementInteractions>
   /**
    * disallows the use of languages other than those specified in the configuration for the lang attribute of `<script>` and `<style>` blocks.
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/block-lang/
@@ -34,6 +64,11 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/comment-directive/
    */
   'svelte/comment-directive'?: Linter.RuleEntry<SvelteCommentDirective>
+  /**
+   * disallow binding to props that are not `$bindable()`, and `$bindable()` props that are never bound
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/consistent-bindable-props/
+   */
+  'svelte/consistent-bindable-props'?: Linter.RuleEntry<SvelteConsistentBindableProps>
   /**
    * enforce a consistent style for CSS selectors
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/consistent-selector-style/
@@ -140,6 +175,11 @@ export interface RuleOptions {
    * @deprecated
    */
   'svelte/no-dynamic-slot-name'?: Linter.RuleEntry<[]>
+  /**
+   * disallow `createEventDispatcher` in runes mode
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-event-dispatcher/
+   */
+  'svelte/no-event-dispatcher'?: Linter.RuleEntry<[]>
   /**
    * disallow exporting load functions in `*.svelte` module in SvelteKit page components.
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-export-load-in-svelte-module-in-kit-pages/
@@ -216,11 +256,21 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-reactive-reassign/
    */
   'svelte/no-reactive-reassign'?: Linter.RuleEntry<SvelteNoReactiveReassign>
+  /**
+   * disallow `$:` reactive statements in favor of `$derived` and `$effect`
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-reactive-statements/
+   */
+  'svelte/no-reactive-statements'?: Linter.RuleEntry<[]>
   /**
    * disallow specific HTML elements
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-restricted-html-elements/
    */
   'svelte/no-restricted-html-elements'?: Linter.RuleEntry<SvelteNoRestrictedHtmlElements>
+  /**
+   * disallow importing server-only modules into code that runs in the browser
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-server-only-imports/
+   */
+  'svelte/no-server-only-imports'?: Linter.RuleEntry<[]>
   /**
    * disallow shorthand style properties that override related longhand properties
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-shorthand-style-property-overrides/
@@ -246,6 +296,11 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-target-blank/
    */
   'svelte/no-target-blank'?: Linter.RuleEntry<SvelteNoTargetBlank>
+  /**
+   * disallow using browser globals at the top level, which is also executed on the server
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-top-level-browser-globals/
+   */
+  'svelte/no-top-level-browser-globals'?: Linter.RuleEntry<[]>
   /**
    * disallow trailing whitespace at the end of lines
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-trailing-spaces/
@@ -256,11 +311,31 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unknown-style-directive-property/
    */
   'svelte/no-unknown-style-directive-property'?: Linter.RuleEntry<SvelteNoUnknownStyleDirectiveProperty>
+  /**
+   * disallow selectors in `<style>` that cannot match any element in the template
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unmatched-selector/
+   */
+  'svelte/no-unmatched-selector'?: Linter.RuleEntry<[]>
+  /**
+   * disallow reassigning `$derived` values and mutating props not declared as `$bindable`
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unsafe-rune-mutation/
+   */
+  'svelte/no-unsafe-rune-mutation'?: Linter.RuleEntry<SvelteNoUnsafeRuneMutation>
+  /**
+   * disallow returning values that cannot be serialized from server `load` functions and form actions
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unserializable-server-data/
+   */
+  'svelte/no-unserializable-server-data'?: Linter.RuleEntry<SvelteNoUnserializableServerData>
   /**
    * disallow the use of a class in the template without a corresponding style
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unused-class-name/
    */
   'svelte/no-unused-class-name'?: Linter.RuleEntry<SvelteNoUnusedClassName>
+  /**
+   * disallow props that are declared but never used
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unused-props/
+   */
+  'svelte/no-unused-props'?: Linter.RuleEntry<SvelteNoUnusedProps>
   /**
    * disallow unused svelte-ignore comments
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/no-unused-svelte-ignore/
@@ -286,16 +361,36 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-const/
    */
   'svelte/prefer-const'?: Linter.RuleEntry<SveltePreferConst>
+  /**
+   * require `$derived` instead of `$effect` that only assigns a `$state`
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-derived-over-effect/
+   */
+  'svelte/prefer-derived-over-effect'?: Linter.RuleEntry<[]>
   /**
    * destructure values from object stores for better change tracking & fewer redraws
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-destructured-store-props/
    */
   'svelte/prefer-destructured-store-props'?: Linter.RuleEntry<[]>
+  /**
+   * require event attributes instead of `on:` directives
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-event-attributes/
+   */
+  'svelte/prefer-event-attributes'?: Linter.RuleEntry<[]>
+  /**
+   * require snippets instead of slots
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-snippets/
+   */
+  'svelte/prefer-snippets'?: Linter.RuleEntry<[]>
   /**
    * require style directives instead of style attribute
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-style-directive/
    */
   'svelte/prefer-style-directive'?: Linter.RuleEntry<[]>
+  /**
+   * require the reactive classes from `svelte/reactivity` instead of mutated `Map`, `Set`, `Date`, `URL` and `URLSearchParams`
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/prefer-svelte-reactivity/
+   */
+  'svelte/prefer-svelte-reactivity'?: Linter.RuleEntry<[]>
   /**
    * require keyed `{#each}` block
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/require-each-key/
@@ -341,6 +436,11 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/sort-attributes/
    */
   'svelte/sort-attributes'?: Linter.RuleEntry<SvelteSortAttributes>
+  /**
+   * enforce order of class names and disallow duplicate class names
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/sort-classes/
+   */
+  'svelte/sort-classes'?: Linter.RuleEntry<SvelteSortClasses>
   /**
    * enforce consistent spacing after the `<!--` and before the `-->` in a HTML comment
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/spaced-html-comment/
@@ -356,16 +456,41 @@ export interface RuleOptions {
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-compile/
    */
   'svelte/valid-compile'?: Linter.RuleEntry<SvelteValidCompile>
+  /**
+   * disallow props that do not match the props declared by the child component
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-component-props/
+   */
+  'svelte/valid-component-props'?: Linter.RuleEntry<SvelteValidComponentProps>
+  /**
+   * disallow `--style-props` that are not read by the child component, and require the ones it needs
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-component-style-props/
+   */
+  'svelte/valid-component-style-props'?: Linter.RuleEntry<SvelteValidComponentStyleProps>
   /**
    * enforce keys to use variables defined in the `{#each}` block
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-each-key/
    */
   'svelte/valid-each-key'?: Linter.RuleEntry<[]>
+  /**
+   * disallow reading `data` properties that the `load` functions do not return, and returning properties the page does not read
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-load-data-in-kit-pages/
+   */
+  'svelte/valid-load-data-in-kit-pages'?: Linter.RuleEntry<SvelteValidLoadDataInKitPages>
   /**
    * disallow props other than data or errors in SvelteKit page components.
    * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-prop-names-in-kit-pages/
    */
   'svelte/valid-prop-names-in-kit-pages'?: Linter.RuleEntry<[]>
+  /**
+   * disallow `{@render}` tags that do not match the snippet signatures, and unused snippets
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-render-tags/
+   */
+  'svelte/valid-render-tags'?: Linter.RuleEntry<[]>
+  /**
+   * disallow unknown CSS properties and invalid CSS values
+   * @see https://sveltejs.github.io/eslint-plugin-svelte/rules/valid-style-properties/
+   */
+  'svelte/valid-style-properties'?: Linter.RuleEntry<SvelteValidStyleProperties>
 }
 
 /* ======= Declarations ======= */
@@ -376,6 +501,32 @@ type SvelteTypescriptEslintNoUnnecessaryCondition = []|[{
   
   allowRuleToRunWithoutStrictNullChecksIKnowWhatIAmDoing?: boolean
 }]
+// ----- svelte/a11y-alt-text -----
+type SvelteA11YAltText = []|[{
+  elements?: ("img" | "area" | "input[type=\"image\"]" | "object")[]
+}]
+// ----- svelte/a11y-click-events-have-key-events -----
+type SvelteA11YClickEventsHaveKeyEvents = []|[{
+  keyHandlers?: string[]
+  ignoreElements?: string[]
+  checkComponents?: boolean
+}]
+// ----- svelte/a11y-label-has-associated-control -----
+type SvelteA11YLabelHasAssociatedControl = []|[{
+  labelComponents?: string[]
+}]
+// ----- svelte/a11y-no-autofocus -----
+type SvelteA11YNoAutofocus = []|[{
+  checkComponents?: boolean
+}]
+// ----- svelte/a11y-no-redundant-roles -----
+type SvelteA11YNoRedundantRoles = []|[{
+  [k: string]: string[] | undefined
+}]
+// ----- svelte/a11y-no-static-element-interactions -----
+type SvelteA11YNoStaticElementInteractions = []|[{
+  handlers?: string[]
+}]
 // ----- svelte/block-lang -----
 type SvelteBlockLang = []|[{
   enforceScriptPresent?: boolean
@@ -393,6 +544,12 @@ type SvelteButtonHasType = []|[{
 type SvelteCommentDirective = []|[{
   reportUnusedDisableDirectives?: boolean
 }]
+// ----- svelte/consistent-bindable-props -----
+type SvelteConsistentBindableProps = []|[{
+  checkBindings?: boolean
+  checkUnusedBindable?: boolean
+  projectRoot?: string
+}]
 // ----- svelte/consistent-selector-style -----
 type SvelteConsistentSelectorStyle = []|[{
   checkGlobal?: boolean
@@ -508,9 +665,27 @@ type SvelteNoUnknownStyleDirectiveProperty = []|[{
   ignoreProperties?: [string, ...(string)[]]
   ignorePrefixed?: boolean
 }]
+// ----- svelte/no-unsafe-rune-mutation -----
+type SvelteNoUnsafeRuneMutation = []|[{
+  derived?: boolean
+  props?: boolean
+  deepMutation?: boolean
+}]
+// ----- svelte/no-unserializable-server-data -----
+type SvelteNoUnserializableServerData = []|[{
+  allowedClasses?: string[]
+}]
 // ----- svelte/no-unused-class-name -----
 type SvelteNoUnusedClassName = []|[{
   allowedClassNames?: string[]
+  checkSelectors?: boolean
+  allowedSelectorClassNames?: string[]
+}]
+// ----- svelte/no-unused-props -----
+type SvelteNoUnusedProps = []|[{
+  checkImportedTypes?: boolean
+  ignoreTypePatterns?: string[]
+  ignorePropertyPatterns?: string[]
 }]
 // ----- svelte/no-useless-mustaches -----
 type SvelteNoUselessMustaches = []|[{
@@ -520,6 +695,7 @@ type SvelteNoUselessMustaches = []|[{
 // ----- svelte/prefer-class-directive -----
 type SveltePreferClassDirective = []|[{
   prefer?: ("always" | "empty")
+  syntax?: ("directive" | "object" | "auto")
 }]
 // ----- svelte/prefer-const -----
 type SveltePreferConst = []|[{
@@ -542,9 +718,40 @@ type SvelteSortAttributes = []|[{
   })[]
   alphabetical?: boolean
 }]
+// ----- svelte/sort-classes -----
+type SvelteSortClasses = []|[{
+  order?: (string | [string, ...(string)[]] | {
+    match: (string | [string, ...(string)[]])
+    sort: ("alphabetical" | "ignore")
+  })[]
+  sorter?: string
+}]
 // ----- svelte/spaced-html-comment -----
 type SvelteSpacedHtmlComment = []|[("always" | "never")]
 // ----- svelte/valid-compile -----
 type SvelteValidCompile = []|[{
   ignoreWarnings?: boolean
+}]
+// ----- svelte/valid-component-props -----
+type SvelteValidComponentProps = []|[{
+  checkUnknownProps?: boolean
+  checkMissingProps?: boolean
+  checkLiteralTypes?: boolean
+}]
+// ----- svelte/valid-component-style-props -----
+type SvelteValidComponentStyleProps = []|[{
+  checkUnknownStyleProps?: boolean
+  checkMissingStyleProps?: boolean
+  ignoreStyleProps?: string[]
+}]
+// ----- svelte/valid-load-data-in-kit-pages -----
+type SvelteValidLoadDataInKitPages = []|[{
+  checkUnusedProperties?: boolean
+}]
+// ----- svelte/valid-style-properties -----
+type SvelteValidStyleProperties = []|[{
+  
+  ignoreProperties?: [string, ...(string)[]]
+  ignorePrefixed?: boolean
+  checkValues?: boolean
 }]
\ No newline at end of file
@@ -133,6 +133,7 @@ export default createRule('@typescript-eslint/no-unnecessary-condition', {
 			noOverlapBooleanExpression: 'Unnecessary conditional, the types have no overlap.',
 			never: 'Unnecessary conditional, value is `never`.',
 			neverOptionalChain: 'Unnecessary optional chain on a non-nullish value.',
+			neverPromise: 'Unnecessary `{#await}` block, value is never a Promise.',
 			noStrictNullCheck:
 				'This rule requires the `strictNullChecks` compiler option to be turned on to function correctly.'
 		},
@@ -371,6 +372,32 @@ export default createRule('@typescript-eslint/no-unnecessary-condition', {
 			}
 		}
 
+		/**
+		 * Checks if an `{#await}` block is necessary:
+		 * if the type of the awaited value is never thenable, it's not necessary.
+		 */
+		function checkAwaitBlock(node: AST.SvelteAwaitBlock): void {
+			const expression = node.expression;
+			if (hasSvelteReactiveVar(expression)) {
+				return;
+			}
+
+			const type = getNodeType(expression);
+			// The value may be a Promise if it involves `any` or `unknown` or a naked type parameter
+			if (
+				!type ||
+				unionTypeParts(type).some(
+					(part) => isAnyType(part, ts) || isUnknownType(part, ts) || part.isTypeParameter()
+				)
+			) {
+				return;
+			}
+			if (unionTypeParts(type).some((part) => part.getProperty('then'))) {
+				return;
+			}
+			context.report({ node: expression, messageId: 'neverPromise' });
+		}
+
 		/**
 		 * Checks that a binary expression is necessarily conditional, reports otherwise.
 		 * If both sides of the binary expression are literal values, it's not a necessary condition.
@@ -716,7 +743,13 @@ export default createRule('@typescript-eslint/no-unnecessary-condition', {
 			LogicalExpression: checkLogicalExpressionForUnnecessaryConditionals,
 			WhileStatement: checkIfLoopIsNecessaryConditional,
 			'MemberExpression[optional = true]': checkOptionalMemberExpression,
-			'CallExpression[optional = true]': checkOptionalCallExpression
+			'CallExpression[optional = true]': checkOptionalCallExpression,
+			// Svelte template
+			SvelteIfBlock: (node: AST.SvelteIfBlock): void => checkNode(node.expression),
+			SvelteAwaitBlock: checkAwaitBlock,
+			'SvelteDirective[kind="Class"]': (node: AST.SvelteClassDirective): void => {
+				if (node.expression) checkNode(node.expression);
+			}
 		};
 	}
 });
@@ -0,0 +1,95 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import { getAttribute, hasSpreadAttribute } from '../utils/a11y.js';
+
+const ELEMENTS = ['img', 'area', 'input[type="image"]', 'object'] as const;
+type TargetElement = (typeof ELEMENTS)[number];
+
+export default createRule('a11y-alt-text', {
+	meta: {
+		docs: {
+			description: 'require alternative text for elements that convey information visually',
+			category: 'Accessibility',
+			recommended: false
+		},
+		hasSuggestions: true,
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					elements: {
+						type: 'array',
+						items: { enum: ELEMENTS },
+						uniqueItems: true
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			missingAlt: '`<img>` element should have an `alt` attribute.',
+			missingAltOrLabel:
+				'`<{{element}}>` element should have an `alt`, `aria-label` or `aria-labelledby` attribute.',
+			missingTitle:
+				'`<object>` element should have a `title`, `aria-label` or `aria-labelledby` attribute.',
+			addEmptyAlt: 'Add `alt=""` to mark the image as decorative.'
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const elements: TargetElement[] = context.options[0]?.elements ?? [...ELEMENTS];
+
+		/**
+		 * Gets the target of this rule that matches the given element.
+		 */
+		function getTargetElement(node: AST.SvelteElement): TargetElement | null {
+			const name = getNodeName(node);
+			if (name === 'input') {
+				return getAttribute(node, 'type')?.value === 'image' ? 'input[type="image"]' : null;
+			}
+			return elements.find((element) => element === name) ?? null;
+		}
+
+		/**
+		 * Checks whether the given element has any of the given attributes.
+		 */
+		function hasSomeAttribute(node: AST.SvelteElement, names: string[]): boolean {
+			return names.some((name) => getAttribute(node, name) != null);
+		}
+
+		return {
+			'SvelteElement[kind="html"]'(node: AST.SvelteHTMLElement) {
+				const target = getTargetElement(node);
+				if (!target || !elements.includes(target) || hasSpreadAttribute(node)) {
+					return;
+				}
+				if (target === 'img') {
+					if (getAttribute(node, 'alt')) {
+						return;
+					}
+					context.report({
+						node: node.startTag,
+						messageId: 'missingAlt',
+						suggest: [
+							{
+								messageId: 'addEmptyAlt',
+								fix: (fixer) => fixer.insertTextAfter(node.name, ' alt=""')
+							}
+						]
+					});
+				} else if (target === 'object') {
+					if (!hasSomeAttribute(node, ['title', 'aria-label', 'aria-labelledby'])) {
+						context.report({ node: node.startTag, messageId: 'missingTitle' });
+					}
+				} else if (!hasSomeAttribute(node, ['alt', 'aria-label', 'aria-labelledby'])) {
+					context.report({
+						node: node.startTag,
+						messageId: 'missingAltOrLabel',
+						data: { element: getNodeName(node) }
+					});
+				}
+			}
+		};
+	}
+});
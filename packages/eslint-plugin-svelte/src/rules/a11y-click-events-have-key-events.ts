@@ -0,0 +1,82 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import {
+	getAttribute,
+	hasEventHandler,
+	hasSpreadAttribute,
+	isHiddenFromScreenReader,
+	isInteractiveElement
+} from '../utils/a11y.js';
+
+const DEFAULT_KEY_HANDLERS = ['keydown', 'keyup', 'keypress'];
+
+export default createRule('a11y-click-events-have-key-events', {
+	meta: {
+		docs: {
+			description:
+				'require keyboard event handlers on visible, non-interactive elements with click handlers',
+			category: 'Accessibility',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					keyHandlers: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					},
+					ignoreElements: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					},
+					checkComponents: {
+						type: 'boolean'
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			missingKeyEvent:
+				'Visible, non-interactive elements with a click handler must be accompanied by a keyboard event handler. Consider whether an interactive element such as `<button>` might be more appropriate.'
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const keyHandlers: string[] = context.options[0]?.keyHandlers ?? DEFAULT_KEY_HANDLERS;
+		const ignoreElements: string[] = context.options[0]?.ignoreElements ?? [];
+		const checkComponents = context.options[0]?.checkComponents ?? false;
+
+		return {
+			SvelteElement(node: AST.SvelteElement) {
+				if (
+					(node.kind === 'component' ? !checkComponents : node.kind !== 'html') ||
+					ignoreElements.includes(getNodeName(node))
+				) {
+					return;
+				}
+				if (
+					!hasEventHandler(node, 'click') ||
+					keyHandlers.some((event) => hasEventHandler(node, event)) ||
+					hasSpreadAttribute(node) ||
+					isHiddenFromScreenReader(node) ||
+					isInteractiveElement(node)
+				) {
+					return;
+				}
+				const role = getAttribute(node, 'role');
+				if (
+					role &&
+					(role.value == null || role.value === 'presentation' || role.value === 'none')
+				) {
+					return;
+				}
+				context.report({ node: node.startTag, messageId: 'missingKeyEvent' });
+			}
+		};
+	}
+});
@@ -0,0 +1,110 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import { getAttribute, hasSpreadAttribute } from '../utils/a11y.js';
+
+/** The elements that can be associated with a `<label>`. */
+const LABELABLE_ELEMENTS = ['button', 'input', 'meter', 'output', 'progress', 'select', 'textarea'];
+
+type ChildNode = AST.SvelteElement['children'][number] | AST.SvelteIfBlockElseIf;
+
+/**
+ * Checks whether the given nodes may contain a control.
+ * Components, slots and snippets may render a control, so they are regarded as controls.
+ */
+function hasControl(nodes: ChildNode[]): boolean {
+	return nodes.some((node) => {
+		switch (node.type) {
+			case 'SvelteElement': {
+				if (node.kind !== 'html') {
+					return true;
+				}
+				const name = getNodeName(node);
+				return LABELABLE_ELEMENTS.includes(name) || name === 'slot' || hasControl(node.children);
+			}
+			case 'SvelteRenderTag': {
+				return true;
+			}
+			case 'SvelteMustacheTag': {
+				// `{@html}`
+				return node.kind === 'raw';
+			}
+			case 'SvelteIfBlock': {
+				return hasControl(node.children) || (node.else != null && hasControl(node.else.children));
+			}
+			case 'SvelteEachBlock': {
+				return hasControl(node.children) || (node.else != null && hasControl(node.else.children));
+			}
+			case 'SvelteKeyBlock':
+			case 'SvelteSnippetBlock': {
+				return hasControl(node.children);
+			}
+			case 'SvelteAwaitBlock': {
+				return [node.pending, node.then, node.catch].some(
+					(block) => block != null && hasControl(block.children)
+				);
+			}
+			default: {
+				return false;
+			}
+		}
+	});
+}
+
+export default createRule('a11y-label-has-associated-control', {
+	meta: {
+		docs: {
+			description: 'require `<label>` elements to be associated with a control',
+			category: 'Accessibility',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					labelComponents: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			missingControl:
+				'A form label must be associated with a control. Use the `for` attribute or wrap the control in the label.'
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const labelComponents: string[] = context.options[0]?.labelComponents ?? [];
+
+		/**
+		 * Verify the given label element.
+		 */
+		function verify(node: AST.SvelteElement) {
+			if (
+				getAttribute(node, 'for') ||
+				getAttribute(node, 'htmlFor') ||
+				hasSpreadAttribute(node) ||
+				hasControl(node.children)
+			) {
+				return;
+			}
+			context.report({ node: node.startTag, messageId: 'missingControl' });
+		}
+
+		return {
+			SvelteElement(node: AST.SvelteElement) {
+				const name = getNodeName(node);
+				if (
+					(node.kind === 'html' && name === 'label') ||
+					(node.kind === 'component' && labelComponents.includes(name))
+				) {
+					verify(node);
+				}
+			}
+		};
+	}
+});
@@ -0,0 +1,94 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import { getAttribute, getAttributeRemovalRange } from '../utils/a11y.js';
+
+/**
+ * Checks whether the given attribute is `autofocus={false}`.
+ */
+function isFalseAttribute(node: NonNullable<ReturnType<typeof getAttribute>>['node']): boolean {
+	if (node.type !== 'SvelteAttribute' || node.value.length !== 1) {
+		return false;
+	}
+	const value = node.value[0];
+	return (
+		value.type === 'SvelteMustacheTag' &&
+		value.expression.type === 'Literal' &&
+		value.expression.value === false
+	);
+}
+
+/**
+ * Checks whether the given element is a `<dialog>` or is in a `<dialog>`,
+ * where `autofocus` is the recommended way to set the initial focus.
+ */
+function isInDialog(node: AST.SvelteElement): boolean {
+	let target: AST.SvelteElement['parent'] | AST.SvelteElement = node;
+	while (target) {
+		if (
+			target.type === 'SvelteElement' &&
+			target.kind === 'html' &&
+			getNodeName(target) === 'dialog'
+		) {
+			return true;
+		}
+		target = target.parent as AST.SvelteElement['parent'];
+	}
+	return false;
+}
+
+export default createRule('a11y-no-autofocus', {
+	meta: {
+		docs: {
+			description: 'disallow the `autofocus` attribute',
+			category: 'Accessibility',
+			recommended: false
+		},
+		hasSuggestions: true,
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					checkComponents: {
+						type: 'boolean'
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			unexpectedAutofocus:
+				'Avoid using `autofocus`. It can cause usability issues for sighted and non-sighted users.',
+			removeAutofocus: 'Remove the `autofocus` attribute.'
+		},
+		type: 'suggestion'
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const checkComponents = context.options[0]?.checkComponents ?? false;
+
+		return {
+			SvelteElement(node: AST.SvelteElement) {
+				if (node.kind === 'component' ? !checkComponents : node.kind !== 'html') {
+					return;
+				}
+				const attribute = getAttribute(node, 'autofocus');
+				if (!attribute || isFalseAttribute(attribute.node) || isInDialog(node)) {
+					return;
+				}
+				context.report({
+					node: attribute.node,
+					messageId: 'unexpectedAutofocus',
+					suggest: [
+						{
+							messageId: 'removeAutofocus',
+							fix: (fixer) =>
+								fixer.removeRange(getAttributeRemovalRange(sourceCode, attribute.node))
+						}
+					]
+				});
+			}
+		};
+	}
+});
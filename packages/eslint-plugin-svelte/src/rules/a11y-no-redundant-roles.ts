@@ -0,0 +1,63 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import { getAttribute, getAttributeRemovalRange, getImplicitRole } from '../utils/a11y.js';
+
+export default createRule('a11y-no-redundant-roles', {
+	meta: {
+		docs: {
+			description:
+				'disallow `role` attributes that are the same as the implicit role of the element',
+			category: 'Accessibility',
+			recommended: false
+		},
+		hasSuggestions: true,
+		schema: [
+			{
+				type: 'object',
+				additionalProperties: {
+					type: 'array',
+					items: { type: 'string' },
+					uniqueItems: true
+				}
+			}
+		],
+		messages: {
+			redundantRole:
+				'Redundant role `{{role}}`. `<{{element}}>` has the role `{{role}}` implicitly.',
+			removeRole: 'Remove the `role` attribute.'
+		},
+		type: 'suggestion'
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const allowedRoles: Record<string, string[] | undefined> = context.options[0] ?? {};
+
+		return {
+			'SvelteElement[kind="html"]'(node: AST.SvelteHTMLElement) {
+				const role = getAttribute(node, 'role');
+				if (!role?.value) {
+					return;
+				}
+				const element = getNodeName(node);
+				// The first token is the role. The others are fallbacks.
+				const roleName = role.value.trim().split(/\s+/u)[0].toLowerCase();
+				if (getImplicitRole(node) !== roleName || allowedRoles[element]?.includes(roleName)) {
+					return;
+				}
+				context.report({
+					node: role.node,
+					messageId: 'redundantRole',
+					data: { role: roleName, element },
+					suggest: [
+						{
+							messageId: 'removeRole',
+							fix: (fixer) => fixer.removeRange(getAttributeRemovalRange(sourceCode, role.node))
+						}
+					]
+				});
+			}
+		};
+	}
+});
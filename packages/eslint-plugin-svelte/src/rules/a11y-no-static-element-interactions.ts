@@ -0,0 +1,77 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import {
+	getAttribute,
+	getImplicitRole,
+	hasEventHandler,
+	hasSpreadAttribute,
+	isHiddenFromScreenReader,
+	isInteractiveElement
+} from '../utils/a11y.js';
+
+const DEFAULT_HANDLERS = ['click', 'mousedown', 'mouseup', 'keypress', 'keydown', 'keyup'];
+
+export default createRule('a11y-no-static-element-interactions', {
+	meta: {
+		docs: {
+			description: 'require an ARIA role on static elements with interactive event handlers',
+			category: 'Accessibility',
+			recommended: false
+		},
+		hasSuggestions: true,
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					handlers: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			missingRole: '`<{{element}}>` with a {{handler}} handler must have an ARIA role.',
+			addButtonRole: 'Add `role="button"` and make the element focusable.'
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const handlers: string[] = context.options[0]?.handlers ?? DEFAULT_HANDLERS;
+
+		return {
+			'SvelteElement[kind="html"]'(node: AST.SvelteHTMLElement) {
+				const handler = handlers.find((event) => hasEventHandler(node, event));
+				if (
+					!handler ||
+					hasSpreadAttribute(node) ||
+					getAttribute(node, 'role') ||
+					getAttribute(node, 'contenteditable') ||
+					isHiddenFromScreenReader(node) ||
+					isInteractiveElement(node) ||
+					getImplicitRole(node)
+				) {
+					return;
+				}
+				context.report({
+					node: node.startTag,
+					messageId: 'missingRole',
+					data: { element: getNodeName(node), handler },
+					suggest: [
+						{
+							messageId: 'addButtonRole',
+							fix: (fixer) =>
+								fixer.insertTextAfter(
+									node.name,
+									getAttribute(node, 'tabindex') ? ' role="button"' : ' role="button" tabindex="0"'
+								)
+						}
+					]
+				});
+			}
+		};
+	}
+});
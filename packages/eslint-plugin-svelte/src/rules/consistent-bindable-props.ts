@@ -0,0 +1,132 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import path from 'path';
+import { createRule } from '../utils/index.js';
+import { getTypeScript } from '../utils/ts-utils/index.js';
+import { getCwd, getPhysicalFilename } from '../utils/compat.js';
+import { resolveComponentPath } from '../utils/component-resolver.js';
+import { getComponentBindings, getComponentDefinition } from '../utils/component-graph.js';
+
+/**
+ * Checks whether the given expression is a `$bindable()` call.
+ */
+function isBindableCall(node: TSESTree.Expression): boolean {
+	return (
+		node.type === 'CallExpression' &&
+		node.callee.type === 'Identifier' &&
+		node.callee.name === '$bindable'
+	);
+}
+
+export default createRule('consistent-bindable-props', {
+	meta: {
+		docs: {
+			description:
+				'disallow binding to props that are not `$bindable()`, and `$bindable()` props that are never bound',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					checkBindings: {
+						type: 'boolean'
+					},
+					checkUnusedBindable: {
+						type: 'boolean'
+					},
+					projectRoot: {
+						type: 'string'
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			notBindable: "'{{name}}' is not declared as `$bindable()` in '{{component}}'.",
+			unusedBindable:
+				"'{{name}}' is declared as `$bindable()`, but no component in the project binds it."
+		},
+		type: 'problem',
+		conditions: [
+			{
+				svelteVersions: ['5']
+			}
+		]
+	},
+	create(context) {
+		const ts = getTypeScript(context);
+		if (!ts) {
+			return {};
+		}
+		const checkBindings = context.options[0]?.checkBindings ?? true;
+		const checkUnusedBindable = context.options[0]?.checkUnusedBindable ?? true;
+		const bindableProps: TSESTree.Property[] = [];
+
+		return {
+			'SvelteElement[kind="component"]'(node: AST.SvelteComponentElement) {
+				if (!checkBindings) {
+					return;
+				}
+				const bindings = node.startTag.attributes.filter(
+					(attr): attr is AST.SvelteBindingDirective =>
+						attr.type === 'SvelteDirective' &&
+						attr.kind === 'Binding' &&
+						attr.key.name.name !== 'this'
+				);
+				if (!bindings.length) {
+					return;
+				}
+				const filePath = resolveComponentPath(context, node);
+				const definition = filePath ? getComponentDefinition(context, ts, filePath) : null;
+				// All props of legacy components can be bound.
+				if (!definition?.runes) {
+					return;
+				}
+				const component = node.name.type === 'Identifier' ? node.name.name : '';
+				for (const binding of bindings) {
+					const prop = definition.props.get(binding.key.name.name);
+					if (prop?.bindable === false) {
+						context.report({
+							node: binding,
+							messageId: 'notBindable',
+							data: { name: prop.name, component }
+						});
+					}
+				}
+			},
+			'VariableDeclarator[init.type="CallExpression"][init.callee.name="$props"] > ObjectPattern > Property'(
+				node: TSESTree.Property
+			) {
+				if (
+					checkUnusedBindable &&
+					node.value.type === 'AssignmentPattern' &&
+					isBindableCall(node.value.right)
+				) {
+					bindableProps.push(node);
+				}
+			},
+			'Program:exit'() {
+				if (!bindableProps.length) {
+					return;
+				}
+				const rootDir = path.resolve(getCwd(context), context.options[0]?.projectRoot ?? '.');
+				const bound = getComponentBindings(context, ts, getPhysicalFilename(context), rootDir);
+				if (!bound) {
+					return;
+				}
+				for (const node of bindableProps) {
+					if (node.computed || node.key.type !== 'Identifier' || bound.has(node.key.name)) {
+						continue;
+					}
+					context.report({
+						node: node.value,
+						messageId: 'unusedBindable',
+						data: { name: node.key.name }
+					});
+				}
+			}
+		};
+	}
+});
@@ -6,6 +6,15 @@ import type { RuleContext } from '../types.js';
 import { findVariable } from '../utils/ast-utils.js';
 import { traverseNodes } from 'svelte-eslint-parser';
 import { getSourceCode } from '../utils/compat.js';
+import { getSvelteContext } from '../utils/svelte-context.js';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import {
+	getReactiveVariableReferences,
+	getTrackedVariableNodes,
+	isFunctionCall
+} from './reference-helpers/reactive-statement.js';
+import { getReassignData } from './reference-helpers/reassign.js';
+import type { ReassignData } from './reference-helpers/reassign.js';
 
 /**
  * Get usage of `tick`
@@ -65,16 +74,6 @@ function isChildNode(
 	return false;
 }
 
-/**
- * Return true if `node` is a function call.
- */
-function isFunctionCall(node: TSESTree.Node): boolean {
-	if (node.type !== 'Identifier') return false;
-	const { parent } = node;
-	if (parent?.type !== 'CallExpression') return false;
-	return parent.callee.type === 'Identifier' && parent.callee.name === node.name;
-}
-
 /**
  * Return true if `node` is a reactive variable.
  */
@@ -119,53 +118,6 @@ function isPromiseThenOrCatchBody(node: TSESTree.Node): boolean {
 	return ['then', 'catch'].includes(property.name);
 }
 
-/**
- * Get all reactive variable reference.
- */
-function getReactiveVariableReferences(context: RuleContext) {
-	const scopeManager = getSourceCode(context).scopeManager;
-	// Find the top-level (module or global) scope.
-	// Any variable defined at the top-level (module scope or global scope) can be made reactive.
-	const toplevelScope =
-		scopeManager.globalScope?.childScopes.find((scope) => scope.type === 'module') ||
-		scopeManager.globalScope;
-	if (!toplevelScope) {
-		return [];
-	}
-
-	// Extracts all reactive references to variables defined in the top-level scope.
-	const reactiveVariableNodes: TSESTree.Identifier[] = [];
-	for (const variable of toplevelScope.variables) {
-		for (const reference of variable.references) {
-			if (reference.identifier.type === 'Identifier' && !isFunctionCall(reference.identifier)) {
-				reactiveVariableNodes.push(reference.identifier);
-			}
-		}
-	}
-	return reactiveVariableNodes;
-}
-
-/**
- * Get all tracked reactive variables.
- */
-function getTrackedVariableNodes(
-	reactiveVariableReferences: TSESTree.Identifier[],
-	ast: AST.SvelteReactiveStatement
-) {
-	const reactiveVariableNodes: Set<TSESTree.Identifier> = new Set();
-	for (const identifier of reactiveVariableReferences) {
-		if (
-			// If the identifier is within the reactive statement range,
-			// it is used within the reactive statement.
-			ast.range[0] <= identifier.range[0] &&
-			identifier.range[1] <= ast.range[1]
-		) {
-			reactiveVariableNodes.add(identifier);
-		}
-	}
-	return reactiveVariableNodes;
-}
-
 /**  */
 function getDeclarationBody(
 	node: TSESTree.Node,
@@ -363,6 +315,257 @@ function doLint(
 	}
 }
 
+/**
+ * Get all variables declared with `$state` or `$state.raw`.
+ */
+function getStateVariables(context: RuleContext): Set<Variable> {
+	const variables = new Set<Variable>();
+	for (const scope of getSourceCode(context).scopeManager.scopes) {
+		for (const variable of scope.variables) {
+			const def = variable.defs[0];
+			if (
+				def?.type === 'Variable' &&
+				def.node.init?.type === 'CallExpression' &&
+				(isRuneCallee(def.node.init.callee, '$state') ||
+					isRuneCallee(def.node.init.callee, '$state', 'raw'))
+			) {
+				variables.add(variable);
+			}
+		}
+	}
+	return variables;
+}
+
+/**
+ * Get the `$state` variables that outlive a run of the given rune.
+ * State declared inside the rune callback, or inside a helper function that the callback calls,
+ * is created anew on every run, so writing to it cannot cause a loop.
+ */
+function getSharedStateVariables(
+	stateVariables: Set<Variable>,
+	node: TSESTree.CallExpression
+): Set<Variable> {
+	const variables = new Set<Variable>();
+	for (const variable of stateVariables) {
+		const { block } = variable.scope;
+		if (block.range[0] <= node.range[0] && node.range[1] <= block.range[1]) {
+			variables.add(variable);
+		}
+	}
+	return variables;
+}
+
+/**
+ * Return true if `callee` is the given rune, e.g. `$effect` or `$effect.pre`.
+ */
+function isRuneCallee(callee: TSESTree.Node, rune: string, member?: string): boolean {
+	if (callee.type === 'Identifier') {
+		return member == null && callee.name === rune;
+	}
+	return (
+		member != null &&
+		callee.type === 'MemberExpression' &&
+		callee.object.type === 'Identifier' &&
+		callee.object.name === rune &&
+		callee.property.type === 'Identifier' &&
+		callee.property.name === member
+	);
+}
+
+/**
+ * Return true if the given reassign also reads the current value, e.g. `count++`, `count += 1` or `list.push(1)`.
+ */
+function isReadingReassign(reassign: ReassignData): boolean {
+	const { node } = reassign;
+	return (
+		node.type === 'UpdateExpression' ||
+		node.type === 'CallExpression' ||
+		(node.type === 'AssignmentExpression' && node.operator !== '=')
+	);
+}
+
+type RunesAccess = {
+	node: TSESTree.Identifier;
+	variable: Variable;
+	callFuncIdentifiers: TSESTree.Identifier[];
+};
+
+/**
+ * Collect `$state` reads that are tracked by the given rune callback, and `$state` writes made by it.
+ * Reads are tracked only while the callback runs synchronously.
+ * Writes are collected even after `await`, and in `tick`, `setTimeout`, `setInterval`, `queueMicrotask`
+ * and `Promise` callbacks, since they still run as a result of the callback.
+ */
+function collectRunesAccesses(
+	context: RuleContext,
+	ast: TSESTree.Node,
+	stateVariables: Set<Variable>,
+	asyncCallbacks: TSESTree.CallExpression[]
+): { reads: Set<Variable>; writes: RunesAccess[] } {
+	const referenceMap = new Map<TSESTree.Node, Variable>();
+	for (const variable of stateVariables) {
+		for (const reference of variable.references) {
+			if (!reference.init) {
+				referenceMap.set(reference.identifier, variable);
+			}
+		}
+	}
+	const reads = new Set<Variable>();
+	const writes: RunesAccess[] = [];
+	const processed = new Set<TSESTree.Node>();
+	verifyInternal(ast, [], { tracked: true, writes: true });
+	return { reads, writes };
+
+	/** verify for node */
+	function verifyInternal(
+		ast: TSESTree.Node,
+		callFuncIdentifiers: TSESTree.Identifier[],
+		initialMode: { tracked: boolean; writes: boolean }
+	) {
+		if (processed.has(ast)) {
+			// Avoid infinite recursion with recursive references.
+			return;
+		}
+		processed.add(ast);
+
+		const modes = [{ ...initialMode }];
+		const modeEnterNodes: TSESTree.Node[] = [];
+
+		traverseNodes(ast, {
+			enterNode(node) {
+				const mode = modes[modes.length - 1];
+				if (node !== ast && isFunctionNode(node)) {
+					modeEnterNodes.push(node);
+					if (node.parent?.type === 'CallExpression' && node.parent.callee === node) {
+						// IIFE
+						modes.push({ ...mode });
+					} else if (
+						isPromiseThenOrCatchBody(node) ||
+						isUntrackCallback(node) ||
+						asyncCallbacks.some((callExpression) =>
+							callExpression.arguments.some((arg) => arg === node)
+						)
+					) {
+						// The reads are not tracked. But the writes are still made by the rune.
+						modes.push({ tracked: false, writes: mode.writes });
+					} else {
+						// e.g. event listeners. We cannot know when it runs.
+						modes.push({ tracked: false, writes: false });
+					}
+				}
+
+				if (node.type !== 'Identifier') {
+					return;
+				}
+				if (isFunctionCall(node)) {
+					// traverse used functions body
+					const functionDeclarationNode = getFunctionDeclarationNode(context, node);
+					if (functionDeclarationNode) {
+						verifyInternal(functionDeclarationNode, [...callFuncIdentifiers, node], mode);
+					}
+					return;
+				}
+				const variable = referenceMap.get(node);
+				if (!variable) {
+					return;
+				}
+				const reassign = getReassignData(node);
+				if (reassign && mode.writes) {
+					writes.push({ node, variable, callFuncIdentifiers });
+				}
+				if (mode.tracked && (!reassign || isReadingReassign(reassign))) {
+					reads.add(variable);
+				}
+			},
+			leaveNode(node) {
+				if (node.type === 'AwaitExpression') {
+					// The rest of the function runs in a different microtask, so reads are no longer tracked.
+					modes[modes.length - 1].tracked = false;
+				}
+				if (modeEnterNodes[modeEnterNodes.length - 1] === node) {
+					modeEnterNodes.pop();
+					modes.pop();
+				}
+			}
+		});
+	}
+}
+
+/**
+ * Return true if `node` is the callback of `untrack()`.
+ */
+function isUntrackCallback(node: TSESTree.Node): boolean {
+	const { parent } = node;
+	return (
+		parent?.type === 'CallExpression' &&
+		parent.arguments[0] === node &&
+		parent.callee.type === 'Identifier' &&
+		parent.callee.name === 'untrack'
+	);
+}
+
+/**
+ * Return true if `node` is a function.
+ */
+function isFunctionNode(node: TSESTree.Node): node is TSESTree.FunctionLike {
+	return (
+		node.type === 'ArrowFunctionExpression' ||
+		node.type === 'FunctionExpression' ||
+		node.type === 'FunctionDeclaration'
+	);
+}
+
+/** Let's lint runes! */
+function doLintRunes(
+	context: RuleContext,
+	node: TSESTree.CallExpression,
+	stateVariables: Set<Variable>,
+	asyncCallbacks: TSESTree.CallExpression[]
+) {
+	const { callee } = node;
+	const isEffect = isRuneCallee(callee, '$effect') || isRuneCallee(callee, '$effect', 'pre');
+	const arg = node.arguments[0];
+	let body: TSESTree.Node | null = null;
+	if (isRuneCallee(callee, '$derived')) {
+		body = arg ?? null;
+	} else if ((isEffect || isRuneCallee(callee, '$derived', 'by')) && arg && isFunctionNode(arg)) {
+		body = arg.body ?? null;
+	}
+	if (!body) {
+		return;
+	}
+
+	const { reads, writes } = collectRunesAccesses(
+		context,
+		body,
+		getSharedStateVariables(stateVariables, node),
+		asyncCallbacks
+	);
+	for (const write of writes) {
+		if (isEffect && !reads.has(write.variable)) {
+			continue;
+		}
+		context.report({
+			node: write.node,
+			loc: write.node.loc,
+			messageId: isEffect ? 'unexpected' : 'unexpectedDerived',
+			data: {
+				variableName: write.node.name
+			}
+		});
+		for (const callFuncIdentifier of write.callFuncIdentifiers) {
+			context.report({
+				node: callFuncIdentifier,
+				loc: callFuncIdentifier.loc,
+				messageId: 'unexpectedCall',
+				data: {
+					variableName: write.node.name
+				}
+			});
+		}
+	}
+}
+
 export default createRule('infinite-reactive-loop', {
 	meta: {
 		docs: {
@@ -375,21 +578,27 @@ export default createRule('infinite-reactive-loop', {
 		messages: {
 			unexpected: 'Possibly it may occur an infinite reactive loop.',
 			unexpectedCall:
-				'Possibly it may occur an infinite reactive loop because this function may update `{{variableName}}`.'
+				'Possibly it may occur an infinite reactive loop because this function may update `{{variableName}}`.',
+			unexpectedDerived:
+				'Possibly it may occur an infinite reactive loop because `$derived` updates `{{variableName}}`.'
 		},
-		type: 'suggestion',
-		// Do not run this rule on Svelte 5 with runes.
-		conditions: [
-			{
-				svelteVersions: ['3/4']
-			},
-			{
-				svelteVersions: ['5'],
-				runes: [false, 'undetermined']
-			}
-		]
+		type: 'suggestion'
 	},
 	create(context) {
+		if (getSvelteContext(context)?.runes === true) {
+			let stateVariables: Set<Variable> | null = null;
+			let asyncCallbacks: TSESTree.CallExpression[] | null = null;
+			return {
+				CallExpression(node: TSESTree.CallExpression) {
+					stateVariables ??= getStateVariables(context);
+					asyncCallbacks ??= [
+						...extractTickReferences(context),
+						...extractTaskReferences(context)
+					].map(({ node }) => node);
+					doLintRunes(context, node, stateVariables, asyncCallbacks);
+				}
+			};
+		}
 		return {
 			['SvelteReactiveStatement']: (ast: AST.SvelteReactiveStatement) => {
 				const tickCallExpressions = extractTickReferences(context);
@@ -0,0 +1,362 @@
+import { ReferenceTracker } from '@eslint-community/eslint-utils';
+import type { TSESTree } from '@typescript-eslint/types';
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getLangValue, getLinesRange } from '../utils/ast-utils.js';
+import { getSourceCode } from '../utils/compat.js';
+import type { RuleFixer } from '../types.js';
+import { getToplevelScope } from './reference-helpers/reactive-statement.js';
+
+type DispatchCall = {
+	node: TSESTree.CallExpression;
+	event: string;
+	detail: TSESTree.Node | null;
+};
+
+type Fix = ReturnType<RuleFixer['replaceText']>;
+
+/** The types of the event detail that are omitted from the callback parameters. */
+const EMPTY_DETAIL_TYPES = [
+	'TSVoidKeyword',
+	'TSUndefinedKeyword',
+	'TSNullKeyword',
+	'TSNeverKeyword'
+];
+
+export default createRule('no-event-dispatcher', {
+	meta: {
+		docs: {
+			description: 'disallow `createEventDispatcher` in runes mode',
+			category: 'Best Practices',
+			recommended: false
+		},
+		fixable: 'code',
+		schema: [],
+		messages: {
+			unexpected: '`createEventDispatcher` is deprecated. Use callback props instead.'
+		},
+		type: 'suggestion',
+		conditions: [
+			{
+				svelteVersions: ['5'],
+				runes: [true]
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		let isTs = false;
+		let propsDeclarator: TSESTree.VariableDeclarator | null = null;
+
+		/**
+		 * Gets the `dispatch('event', detail)` calls of the given dispatcher.
+		 * Returns `null` if the dispatcher is used in other ways.
+		 */
+		function getDispatchCalls(id: TSESTree.Identifier): DispatchCall[] | null {
+			const variable = getToplevelScope(context)?.set.get(id.name);
+			if (!variable || variable.defs.length !== 1) {
+				return null;
+			}
+			const calls: DispatchCall[] = [];
+			for (const reference of variable.references) {
+				if (reference.init) {
+					continue;
+				}
+				const node = reference.identifier as TSESTree.Identifier;
+				const call = node.parent;
+				if (
+					call.type !== 'CallExpression' ||
+					call.callee !== node ||
+					// The return value tells whether the event was cancelled.
+					!(
+						call.parent.type === 'ExpressionStatement' ||
+						(call.parent.type === 'ArrowFunctionExpression' && call.parent.body === call)
+					) ||
+					call.arguments.length < 1 ||
+					call.arguments.length > 2 ||
+					call.arguments[0].type !== 'Literal' ||
+					typeof call.arguments[0].value !== 'string' ||
+					call.arguments[1]?.type === 'SpreadElement'
+				) {
+					return null;
+				}
+				calls.push({
+					node: call,
+					event: call.arguments[0].value,
+					detail: call.arguments[1] ?? null
+				});
+			}
+			return calls;
+		}
+
+		/**
+		 * Gets the types of the callback props for the given events.
+		 * Returns `null` if the types cannot be determined.
+		 */
+		function getCallbackTypes(
+			node: TSESTree.CallExpression,
+			events: string[]
+		): Map<string, string> | null {
+			const typeArgument = node.typeArguments?.params[0];
+			if (!typeArgument) {
+				return null;
+			}
+			const types = new Map<string, string>();
+			if (typeArgument.type !== 'TSTypeLiteral') {
+				const typeText = sourceCode.getText(typeArgument);
+				for (const event of events) {
+					types.set(event, `(detail: ${typeText}['${event}']) => void`);
+				}
+				return types;
+			}
+			for (const member of typeArgument.members) {
+				if (
+					member.type !== 'TSPropertySignature' ||
+					member.computed ||
+					!member.typeAnnotation ||
+					(member.key.type !== 'Identifier' && member.key.type !== 'Literal')
+				) {
+					return null;
+				}
+				const event = member.key.type === 'Identifier' ? member.key.name : String(member.key.value);
+				const detailType = member.typeAnnotation.typeAnnotation;
+				types.set(
+					event,
+					EMPTY_DETAIL_TYPES.includes(detailType.type)
+						? '() => void'
+						: `(detail: ${sourceCode.getText(detailType)}) => void`
+				);
+			}
+			return events.every((event) => types.has(event)) ? types : null;
+		}
+
+		/**
+		 * Gets the members of the type of the given `$props()` declarator, to add the callback props.
+		 */
+		function getPropsTypeMembers(
+			declarator: TSESTree.VariableDeclarator
+		): { node: TSESTree.Node; members: TSESTree.TypeElement[] } | null {
+			const type = declarator.id.typeAnnotation?.typeAnnotation;
+			if (type?.type === 'TSTypeLiteral') {
+				return { node: type, members: type.members };
+			}
+			if (type?.type !== 'TSTypeReference' || type.typeName.type !== 'Identifier') {
+				return null;
+			}
+			const def = getToplevelScope(context)?.set.get(type.typeName.name)?.defs[0];
+			if (def?.node.type === 'TSInterfaceDeclaration') {
+				return { node: def.node.body, members: def.node.body.body };
+			}
+			if (
+				def?.node.type === 'TSTypeAliasDeclaration' &&
+				def.node.typeAnnotation.type === 'TSTypeLiteral'
+			) {
+				return { node: def.node.typeAnnotation, members: def.node.typeAnnotation.members };
+			}
+			return null;
+		}
+
+		/**
+		 * Creates the fix that adds the given members to the given type.
+		 */
+		function addTypeMembers(
+			fixer: RuleFixer,
+			{ node, members }: { node: TSESTree.Node; members: TSESTree.TypeElement[] },
+			newMembers: string[]
+		): Fix {
+			if (!members.length) {
+				return fixer.replaceText(node, `{ ${newMembers.join('; ')} }`);
+			}
+			const last = members[members.length - 1];
+			const lastText = sourceCode.getText(last);
+			const delimiter = /[,;]$/u.test(lastText) ? '' : ';';
+			if (members[0].loc.start.line === node.loc.start.line) {
+				return fixer.insertTextAfter(last, `${delimiter} ${newMembers.join('; ')}`);
+			}
+			const indent = /^\s*/u.exec(sourceCode.lines[last.loc.start.line - 1])![0];
+			return fixer.insertTextAfter(
+				last,
+				`${delimiter}${newMembers.map((member) => `\n${indent}${member};`).join('')}`
+			);
+		}
+
+		/**
+		 * Creates the fixes that add the given callback props to the `$props()` destructuring.
+		 * Returns `null` if the callback props cannot be added.
+		 */
+		function addCallbackProps(
+			fixer: RuleFixer,
+			declarator: TSESTree.VariableDeclarator,
+			names: string[],
+			types: Map<string, string> | null
+		): Fix[] | null {
+			const pattern = declarator.id;
+			if (pattern.type !== 'ObjectPattern') {
+				return null;
+			}
+			const fixes: Fix[] = [];
+			if (types) {
+				const typeMembers = getPropsTypeMembers(declarator);
+				if (!typeMembers) {
+					return null;
+				}
+				fixes.push(
+					addTypeMembers(
+						fixer,
+						typeMembers,
+						[...types].map(([event, type]) => `on${event}?: ${type}`)
+					)
+				);
+			}
+			const properties = pattern.properties;
+			const rest = properties.find((property) => property.type === 'RestElement');
+			const last = [...properties].reverse().find((property) => property.type === 'Property');
+			if (rest) {
+				fixes.push(fixer.insertTextBefore(rest, `${names.join(', ')}, `));
+			} else if (last) {
+				fixes.push(fixer.insertTextAfter(last, `, ${names.join(', ')}`));
+			} else {
+				const end = pattern.typeAnnotation?.range[0] ?? pattern.range[1];
+				fixes.push(fixer.replaceTextRange([pattern.range[0], end], `{ ${names.join(', ')} }`));
+			}
+			return fixes;
+		}
+
+		/**
+		 * Creates the fixer that replaces the given dispatcher with callback props.
+		 * Returns `null` if the dispatcher cannot be replaced.
+		 */
+		function buildFix(node: TSESTree.CallExpression): ((fixer: RuleFixer) => Fix[] | null) | null {
+			const declarator = node.parent;
+			if (
+				declarator.type !== 'VariableDeclarator' ||
+				declarator.init !== node ||
+				declarator.id.type !== 'Identifier' ||
+				declarator.parent.declarations.length !== 1 ||
+				(declarator.parent.parent?.type as string) !== 'SvelteScriptElement'
+			) {
+				return null;
+			}
+			const calls = getDispatchCalls(declarator.id);
+			if (!calls) {
+				return null;
+			}
+			const events = [...new Set(calls.map((call) => call.event))];
+			if (!events.length) {
+				return null;
+			}
+			const types = isTs ? getCallbackTypes(node, events) : null;
+			if (isTs && !types) {
+				return null;
+			}
+			const names = [...(types?.keys() ?? events)].map((event) => `on${event}`);
+			const toplevelScope = getToplevelScope(context);
+			if (names.some((name) => !/^[$a-z_][\w$]*$/iu.test(name) || toplevelScope?.set.has(name))) {
+				return null;
+			}
+			const importSpecifier = getImportSpecifier(node);
+			const declaration = declarator.parent;
+			const props = propsDeclarator;
+
+			return (fixer) => {
+				const fixes: Fix[] = [];
+				if (props) {
+					const propsFixes = addCallbackProps(fixer, props, names, types);
+					if (!propsFixes) {
+						return null;
+					}
+					fixes.push(...propsFixes, fixer.removeRange(getLinesRange(sourceCode, declaration)));
+				} else {
+					const typeAnnotation = types
+						? `: { ${[...types].map(([event, type]) => `on${event}?: ${type}`).join('; ')} }`
+						: '';
+					fixes.push(
+						fixer.replaceText(
+							declaration,
+							`let { ${names.join(', ')} }${typeAnnotation} = $props();`
+						)
+					);
+				}
+				if (importSpecifier) {
+					fixes.push(removeImportSpecifier(fixer, importSpecifier));
+				}
+				for (const call of calls) {
+					const detail = call.detail ? sourceCode.getText(call.detail) : '';
+					fixes.push(fixer.replaceText(call.node, `on${call.event}?.(${detail})`));
+				}
+				return fixes;
+			};
+		}
+
+		/**
+		 * Gets the import specifier of `createEventDispatcher` that is only used by the given call.
+		 */
+		function getImportSpecifier(node: TSESTree.CallExpression): TSESTree.ImportSpecifier | null {
+			if (node.callee.type !== 'Identifier') {
+				return null;
+			}
+			const variable = getToplevelScope(context)?.set.get(node.callee.name);
+			const def = variable?.defs[0];
+			if (!variable || variable.references.length !== 1 || def?.node.type !== 'ImportSpecifier') {
+				return null;
+			}
+			return def.node;
+		}
+
+		/**
+		 * Creates the fix that removes the given import specifier, or its declaration if it is the only one.
+		 */
+		function removeImportSpecifier(fixer: RuleFixer, specifier: TSESTree.ImportSpecifier): Fix {
+			const declaration = specifier.parent as TSESTree.ImportDeclaration;
+			if (declaration.specifiers.length === 1) {
+				const range = getLinesRange(sourceCode, declaration);
+				const text = sourceCode.text;
+				// Also remove the blank line after the import if it would be left at the start of the block.
+				const blankLine = /^[\t ]*\n/u.exec(text.slice(range[1]));
+				if (blankLine && /(?:>|\n[\t ]*)\n$/u.test(text.slice(0, range[0]))) {
+					return fixer.removeRange([range[0], range[1] + blankLine[0].length]);
+				}
+				return fixer.removeRange(range);
+			}
+			const index = declaration.specifiers.indexOf(specifier);
+			if (index < declaration.specifiers.length - 1) {
+				return fixer.removeRange([specifier.range[0], declaration.specifiers[index + 1].range[0]]);
+			}
+			return fixer.removeRange([declaration.specifiers[index - 1].range[1], specifier.range[1]]);
+		}
+
+		return {
+			SvelteScriptElement(node: AST.SvelteScriptElement) {
+				const lang = getLangValue(node)?.toLowerCase();
+				if (lang === 'ts' || lang === 'typescript') {
+					isTs = true;
+				}
+			},
+			'VariableDeclarator[init.type="CallExpression"][init.callee.type="Identifier"][init.callee.name="$props"]'(
+				node: TSESTree.VariableDeclarator
+			) {
+				if ((node.parent.parent?.type as string) === 'SvelteScriptElement') {
+					propsDeclarator = node;
+				}
+			},
+			'Program:exit'() {
+				const referenceTracker = new ReferenceTracker(sourceCode.scopeManager.globalScope!);
+				for (const { node } of referenceTracker.iterateEsmReferences({
+					svelte: {
+						[ReferenceTracker.ESM]: true,
+						createEventDispatcher: {
+							[ReferenceTracker.CALL]: true
+						}
+					}
+				})) {
+					const call = node as TSESTree.CallExpression;
+					context.report({
+						node: call,
+						messageId: 'unexpected',
+						fix: buildFix(call)
+					});
+				}
+			}
+		};
+	}
+});
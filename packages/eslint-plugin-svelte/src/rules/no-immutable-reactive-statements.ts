@@ -1,9 +1,8 @@
 import type { AST } from 'svelte-eslint-parser';
 import { createRule } from '../utils/index.js';
-import type { Scope, Variable, Reference, Definition } from '@typescript-eslint/scope-manager';
-import type { TSESTree } from '@typescript-eslint/types';
-import { findVariable, iterateIdentifiers } from '../utils/ast-utils.js';
+import type { Scope, Variable, Reference } from '@typescript-eslint/scope-manager';
 import { getSourceCode } from '../utils/compat.js';
+import { hasWrite } from './reference-helpers/reactive-statement.js';
 
 export default createRule('no-immutable-reactive-statements', {
 	meta: {
@@ -83,7 +82,7 @@ export default createRule('no-immutable-reactive-statements', {
 							return true;
 						}
 					}
-					return hasWrite(variable);
+					return hasWrite(context, variable);
 				}
 				return false;
 			});
@@ -91,67 +90,6 @@ export default createRule('no-immutable-reactive-statements', {
 			return isMutableDefine;
 		}
 
-		/** Checks whether the given variable has a write or reactive store reference or not. */
-		function hasWrite(variable: Variable) {
-			const defIds = variable.defs.map((def: Definition) => def.name);
-			for (const reference of variable.references) {
-				if (
-					reference.isWrite() &&
-					!defIds.some(
-						(defId) =>
-							defId.range[0] <= reference.identifier.range[0] &&
-							reference.identifier.range[1] <= defId.range[1]
-					)
-				) {
-					return true;
-				}
-				if (hasWriteMember(reference.identifier)) {
-					return true;
-				}
-			}
-			return false;
-		}
-
-		/** Checks whether the given expression has writing to a member or not. */
-		function hasWriteMember(
-			expr: TSESTree.Identifier | TSESTree.JSXIdentifier | TSESTree.MemberExpression
-		): boolean {
-			if (expr.type === 'JSXIdentifier') return false;
-			const parent = expr.parent as TSESTree.Node | AST.SvelteNode;
-			if (parent.type === 'AssignmentExpression') {
-				return parent.left === expr;
-			}
-			if (parent.type === 'UpdateExpression') {
-				return parent.argument === expr;
-			}
-			if (parent.type === 'UnaryExpression') {
-				return parent.operator === 'delete' && parent.argument === expr;
-			}
-			if (parent.type === 'MemberExpression') {
-				return parent.object === expr && hasWriteMember(parent);
-			}
-			if (parent.type === 'SvelteDirective') {
-				return parent.kind === 'Binding' && parent.expression === expr;
-			}
-			if (parent.type === 'SvelteEachBlock') {
-				return (
-					parent.context !== null && parent.expression === expr && hasWriteReference(parent.context)
-				);
-			}
-
-			return false;
-		}
-
-		/** Checks whether the given pattern has writing or not. */
-		function hasWriteReference(pattern: TSESTree.DestructuringPattern): boolean {
-			for (const id of iterateIdentifiers(pattern)) {
-				const variable = findVariable(context, id);
-				if (variable && hasWrite(variable)) return true;
-			}
-
-			return false;
-		}
-
 		/**
 		 * Iterates through references to top-level variables in the given range.
 		 */
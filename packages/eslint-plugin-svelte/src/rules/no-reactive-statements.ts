@@ -0,0 +1,204 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { AST } from 'svelte-eslint-parser';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { getLinesRange, iterateIdentifiers } from '../utils/ast-utils.js';
+import type { RuleFixer } from '../types.js';
+import {
+	getReactiveVariableReferences,
+	getToplevelScope,
+	getTrackedVariableNodes,
+	hasWrite
+} from './reference-helpers/reactive-statement.js';
+
+export default createRule('no-reactive-statements', {
+	meta: {
+		docs: {
+			description: 'disallow `$:` reactive statements in favor of `$derived` and `$effect`',
+			category: 'Best Practices',
+			recommended: false
+		},
+		fixable: 'code',
+		schema: [],
+		messages: {
+			useDerived: 'Use `$derived` instead of the `$:` reactive statement.',
+			useEffect: 'Use `$effect` instead of the `$:` reactive statement.',
+			migrateManually:
+				'This `$:` reactive statement cannot be replaced with `$derived`. Migrate it manually, e.g. with `$effect` or an event handler.'
+		},
+		type: 'suggestion',
+		conditions: [
+			{
+				svelteVersions: ['5']
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const toplevelScope = getToplevelScope(context);
+		if (!toplevelScope) {
+			return {};
+		}
+		let reactiveVariableReferences: TSESTree.Identifier[] | null = null;
+
+		/**
+		 * Finds the top-level variables assigned by the given pattern.
+		 */
+		function findAssignedVariables(pattern: TSESTree.Node): Variable[] | null {
+			const variables: Variable[] = [];
+			for (const id of iterateIdentifiers(pattern as TSESTree.DestructuringPattern)) {
+				const variable = toplevelScope!.set.get(id.name);
+				if (!variable || id.name.startsWith('$')) {
+					return null;
+				}
+				variables.push(variable);
+			}
+			return variables.length ? variables : null;
+		}
+
+		/**
+		 * Checks whether the given reactive statement reads any of the given variables.
+		 * e.g. `$: count = count + 1`
+		 */
+		function isSelfReferencing(
+			node: AST.SvelteReactiveStatement,
+			assignment: TSESTree.AssignmentExpression,
+			variables: Variable[]
+		): boolean {
+			reactiveVariableReferences ??= getReactiveVariableReferences(context);
+			const names = variables.map((variable) => variable.name);
+			for (const id of getTrackedVariableNodes(reactiveVariableReferences, node)) {
+				if (
+					assignment.right.range[0] <= id.range[0] &&
+					id.range[1] <= assignment.right.range[1] &&
+					names.includes(id.name)
+				) {
+					return true;
+				}
+			}
+			return false;
+		}
+
+		/**
+		 * Gets the `let x;` declaration that can be replaced by `$derived`.
+		 * Returns `undefined` if the variable is implicitly declared by the reactive statement,
+		 * and `null` if it cannot be replaced.
+		 */
+		function getReplaceableDeclaration(
+			variable: Variable,
+			assignment: TSESTree.AssignmentExpression
+		): TSESTree.VariableDeclaration | null | undefined {
+			if (variable.defs.length !== 1) {
+				return null;
+			}
+			const def = variable.defs[0];
+			if (def.node === assignment) {
+				return undefined;
+			}
+			if (
+				def.type !== 'Variable' ||
+				def.parent.kind !== 'let' ||
+				def.parent.declarations.length !== 1 ||
+				(def.parent.parent?.type as string) !== 'SvelteScriptElement' ||
+				def.node.id.type !== 'Identifier'
+			) {
+				return null;
+			}
+			return def.parent;
+		}
+
+		/**
+		 * Gets the variables that the given reactive statement derives.
+		 * Returns `null` if the statement cannot be replaced with `$derived`,
+		 * e.g. it reads the assigned variable itself, or the variable is written anywhere else.
+		 */
+		function getDerivedVariables(
+			node: AST.SvelteReactiveStatement,
+			assignment: TSESTree.AssignmentExpression
+		): Variable[] | null {
+			const variables = findAssignedVariables(assignment.left);
+			if (
+				!variables ||
+				isSelfReferencing(node, assignment, variables) ||
+				variables.some((variable) => hasWrite(context, variable, node.range))
+			) {
+				return null;
+			}
+			return variables;
+		}
+
+		/**
+		 * Creates the fixer that replaces the given reactive statement with `$derived`.
+		 */
+		function buildDerivedFix(
+			node: AST.SvelteReactiveStatement,
+			assignment: TSESTree.AssignmentExpression,
+			variables: Variable[]
+		): ((fixer: RuleFixer) => ReturnType<RuleFixer['replaceText']>[]) | null {
+			const declarations = variables.map((variable) =>
+				getReplaceableDeclaration(variable, assignment)
+			);
+			if (declarations.includes(null)) {
+				return null;
+			}
+			const explicitDeclarations = declarations.filter(
+				(declaration): declaration is TSESTree.VariableDeclaration => declaration != null
+			);
+			if (explicitDeclarations.length > 0 && assignment.left.type !== 'Identifier') {
+				return null;
+			}
+
+			const right = sourceCode.getText(assignment.right);
+			const left =
+				explicitDeclarations.length > 0
+					? sourceCode.getText(explicitDeclarations[0].declarations[0].id)
+					: sourceCode.getText(assignment.left);
+			return (fixer) => [
+				...explicitDeclarations.map((declaration) =>
+					fixer.removeRange(getLinesRange(sourceCode, declaration))
+				),
+				fixer.replaceText(node, `let ${left} = $derived(${right});`)
+			];
+		}
+
+		return {
+			SvelteReactiveStatement(node: AST.SvelteReactiveStatement) {
+				if (
+					node.body.type === 'ExpressionStatement' &&
+					node.body.expression.type === 'AssignmentExpression' &&
+					node.body.expression.operator === '='
+				) {
+					const variables = getDerivedVariables(node, node.body.expression);
+					if (!variables) {
+						context.report({
+							node,
+							messageId: 'migrateManually'
+						});
+						return;
+					}
+					context.report({
+						node,
+						messageId: 'useDerived',
+						fix: buildDerivedFix(node, node.body.expression, variables)
+					});
+					return;
+				}
+
+				const body = node.body;
+				context.report({
+					node,
+					messageId: 'useEffect',
+					fix(fixer) {
+						if (body.type === 'BlockStatement') {
+							return fixer.replaceText(node, `$effect(() => ${sourceCode.getText(body)});`);
+						}
+						const indent = /^\s*/u.exec(sourceCode.lines[node.loc.start.line - 1])![0];
+						const text = sourceCode.getText(body).replace(/\n/gu, `\n\t`);
+						return fixer.replaceText(node, `$effect(() => {\n${indent}\t${text}\n${indent}});`);
+					}
+				});
+			}
+		};
+	}
+});
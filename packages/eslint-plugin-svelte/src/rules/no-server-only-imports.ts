@@ -0,0 +1,122 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import path from 'path';
+import { createRule } from '../utils/index.js';
+import { getFilename } from '../utils/compat.js';
+import { getSvelteContext, getSvelteKitFiles } from '../utils/svelte-context.js';
+
+const SERVER_ONLY_MODULES = ['$env/static/private', '$env/dynamic/private', '$app/server'];
+
+/**
+ * Checks whether the given path is in the given directory.
+ */
+function isInDirectory(filePath: string, dir: string): boolean {
+	return filePath === dir || filePath.startsWith(`${dir}${path.sep}`);
+}
+
+export default createRule('no-server-only-imports', {
+	meta: {
+		docs: {
+			description: 'disallow importing server-only modules into code that runs in the browser',
+			category: 'SvelteKit',
+			recommended: false
+		},
+		schema: [],
+		messages: {
+			unexpectedImport: "Unexpected import of the server-only module '{{source}}'.",
+			unexpectedPrivateEnv:
+				"Unexpected import of '{{source}}'. Private environment variables can only be used on the server."
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const svelteContext = getSvelteContext(context);
+		if (!svelteContext?.svelteKitVersion) {
+			return {};
+		}
+		const filePath = getFilename(context);
+		const files = getSvelteKitFiles(context);
+		const libServerDir = path.join(files.lib, 'server');
+		const { svelteFileType, svelteKitFileType } = svelteContext;
+
+		if (
+			/\.server\.[cm]?[jt]s$/u.test(filePath) ||
+			isInDirectory(filePath, libServerDir) ||
+			svelteKitFileType === '+server.[js|ts]' ||
+			svelteKitFileType === 'hooks.server.[js|ts]'
+		) {
+			// Server-only modules can import other server-only modules.
+			return {};
+		}
+		if (
+			svelteFileType == null &&
+			!filePath.endsWith('.svelte') &&
+			svelteKitFileType !== 'hooks.client.[js|ts]' &&
+			svelteKitFileType !== 'hooks.[js|ts]' &&
+			!isInDirectory(filePath, files.routes) &&
+			!isInDirectory(filePath, files.lib)
+		) {
+			// e.g. `svelte.config.js`, `vite.config.ts`
+			return {};
+		}
+
+		/**
+		 * Checks whether the given module specifier refers to a server-only module.
+		 */
+		function isServerOnlyModule(source: string): boolean {
+			if (
+				SERVER_ONLY_MODULES.includes(source) ||
+				source === '$lib/server' ||
+				source.startsWith('$lib/server/') ||
+				/\.server(?:\.[cm]?[jt]s)?$/u.test(source)
+			) {
+				return true;
+			}
+			if (source.startsWith('.')) {
+				return isInDirectory(path.resolve(path.dirname(filePath), source), libServerDir);
+			}
+			return false;
+		}
+
+		/**
+		 * Verify the given module specifier.
+		 */
+		function verify(source: TSESTree.Node | null | undefined) {
+			if (source?.type !== 'Literal' || typeof source.value !== 'string') {
+				return;
+			}
+			if (!isServerOnlyModule(source.value)) {
+				return;
+			}
+			context.report({
+				node: source,
+				messageId: source.value.startsWith('$env/') ? 'unexpectedPrivateEnv' : 'unexpectedImport',
+				data: { source: source.value }
+			});
+		}
+
+		return {
+			ImportDeclaration(node: TSESTree.ImportDeclaration) {
+				// Type-only imports are removed by the compiler.
+				if (
+					node.importKind === 'type' ||
+					(node.specifiers.length > 0 &&
+						node.specifiers.every(
+							(specifier) => specifier.type === 'ImportSpecifier' && specifier.importKind === 'type'
+						))
+				) {
+					return;
+				}
+				verify(node.source);
+			},
+			ExportNamedDeclaration(node: TSESTree.ExportNamedDeclaration) {
+				if (node.exportKind !== 'type') verify(node.source);
+			},
+			ExportAllDeclaration(node: TSESTree.ExportAllDeclaration) {
+				if (node.exportKind !== 'type') verify(node.source);
+			},
+			ImportExpression(node: TSESTree.ImportExpression) {
+				verify(node.source);
+			}
+		};
+	}
+});
@@ -0,0 +1,472 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { AST } from 'svelte-eslint-parser';
+import { ReferenceTracker } from '@eslint-community/eslint-utils';
+import fs from 'fs';
+import path from 'path';
+import { createRule } from '../utils/index.js';
+import { getFilename, getSourceCode } from '../utils/compat.js';
+import { findVariable } from '../utils/ast-utils.js';
+import { createFileCache } from '../utils/cache.js';
+import { getSvelteContext, getSvelteKitFiles } from '../utils/svelte-context.js';
+import { getTypeScript } from '../utils/ts-utils/index.js';
+import type { TypeScript } from '../utils/ts-utils/index.js';
+import type { RuleContext } from '../types.js';
+
+const BROWSER_GLOBALS = [
+	'window',
+	'document',
+	'navigator',
+	'location',
+	'history',
+	'localStorage',
+	'sessionStorage',
+	'indexedDB',
+	'screen',
+	'innerWidth',
+	'innerHeight',
+	'matchMedia',
+	'getComputedStyle',
+	'requestAnimationFrame',
+	'cancelAnimationFrame',
+	'alert',
+	'confirm',
+	'prompt'
+];
+
+type Node = TSESTree.Node | AST.SvelteNode;
+
+const ssrOptionCache = createFileCache<{ ssr: boolean | null }>();
+
+/**
+ * Checks whether the given path is in the given directory.
+ */
+function isInDirectory(filePath: string, dir: string): boolean {
+	return filePath === dir || filePath.startsWith(`${dir}${path.sep}`);
+}
+
+/**
+ * Checks whether the linted file may be executed on the server.
+ * Client hooks, service workers and routes with `export const ssr = false` only run in the browser.
+ */
+function mayRunOnServer(context: RuleContext): boolean {
+	const fileType = getSvelteContext(context)?.svelteKitFileType;
+	if (fileType === 'hooks.client.[js|ts]') {
+		return false;
+	}
+	const filePath = getFilename(context);
+	const { routes, serviceWorker } = getSvelteKitFiles(context);
+	if (
+		filePath.replace(/\.[jt]s$/u, '') === serviceWorker ||
+		isInDirectory(filePath, serviceWorker)
+	) {
+		return false;
+	}
+	const isPage = fileType === '+page.svelte' || fileType === '+page.[js|ts]';
+	if (!isPage && fileType !== '+layout.svelte' && fileType !== '+layout.[js|ts]') {
+		return true;
+	}
+	const ts = getTypeScript(context);
+	if (!ts) {
+		return true;
+	}
+	// The `ssr` option of the page takes precedence over the ones of the layouts.
+	let dir = path.dirname(filePath);
+	const candidates = isPage ? [path.join(dir, '+page')] : [];
+	while (isInDirectory(dir, routes)) {
+		candidates.push(path.join(dir, '+layout'));
+		const parentDir = path.dirname(dir);
+		if (parentDir === dir) break;
+		dir = parentDir;
+	}
+	for (const candidate of candidates) {
+		for (const ext of ['.ts', '.js']) {
+			const ssr = getSsrOption(ts, `${candidate}${ext}`);
+			if (ssr != null) {
+				return ssr;
+			}
+		}
+	}
+	return true;
+}
+
+/**
+ * Gets the value of `export const ssr = ...` in the given universal page or layout file.
+ * Returns `null` if the file does not exist or does not set the option.
+ */
+function getSsrOption(ts: TypeScript, filePath: string): boolean | null {
+	const cached = ssrOptionCache.get(filePath);
+	if (cached) {
+		return cached.ssr;
+	}
+	let code: string;
+	try {
+		code = fs.readFileSync(filePath, 'utf8');
+	} catch {
+		return null;
+	}
+	const sourceFile = ts.createSourceFile(filePath, code, ts.ScriptTarget.Latest, true);
+	let ssr: boolean | null = null;
+	for (const statement of sourceFile.statements) {
+		if (
+			!ts.isVariableStatement(statement) ||
+			!statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+		) {
+			continue;
+		}
+		for (const declaration of statement.declarationList.declarations) {
+			const kind = declaration.initializer?.kind;
+			if (
+				ts.isIdentifier(declaration.name) &&
+				declaration.name.text === 'ssr' &&
+				(kind === ts.SyntaxKind.TrueKeyword || kind === ts.SyntaxKind.FalseKeyword)
+			) {
+				ssr = kind === ts.SyntaxKind.TrueKeyword;
+			}
+		}
+	}
+	ssrOptionCache.set(filePath, { ssr });
+	return ssr;
+}
+
+export default createRule('no-top-level-browser-globals', {
+	meta: {
+		docs: {
+			description:
+				'disallow using browser globals at the top level, which is also executed on the server',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [],
+		messages: {
+			unexpectedGlobal:
+				'Unexpected top-level access to the browser global `{{name}}`. Use it in `onMount` or `$effect`, or guard it with `browser` from `$app/environment`.'
+		},
+		type: 'problem',
+		conditions: [
+			{
+				// Components of other projects may be rendered only in the browser.
+				svelteKitVersions: ['1.0.0-next', '1', '2']
+			}
+		]
+	},
+	create(context) {
+		if (!mayRunOnServer(context)) {
+			return {};
+		}
+		let browserNodes = new Set<TSESTree.Node>();
+		let clientOnlyCalls = new Set<TSESTree.Node>();
+		const processedFunctions = new Map<TSESTree.Node, boolean>();
+
+		/**
+		 * Checks whether the given expression is truthy only in the browser (`expected` is `true`),
+		 * or only on the server (`expected` is `false`).
+		 * e.g. `browser`, `!browser`, `browser && foo`, `typeof window !== 'undefined'`
+		 */
+		function isBrowserCondition(node: TSESTree.Node, expected: boolean): boolean {
+			if (browserNodes.has(node)) {
+				return expected;
+			}
+			if (node.type === 'UnaryExpression' && node.operator === '!') {
+				return isBrowserCondition(node.argument, !expected);
+			}
+			if (node.type === 'LogicalExpression') {
+				if ((node.operator === '&&' && expected) || (node.operator === '||' && !expected)) {
+					return (
+						isBrowserCondition(node.left, expected) || isBrowserCondition(node.right, expected)
+					);
+				}
+				return false;
+			}
+			if (node.type === 'BinaryExpression') {
+				const isDefined = node.operator === '!==' || node.operator === '!=';
+				if (!isDefined && node.operator !== '===' && node.operator !== '==') {
+					return false;
+				}
+				const isTypeofCheck =
+					(isTypeofBrowserGlobal(node.left) && isUndefinedString(node.right)) ||
+					(isTypeofBrowserGlobal(node.right) && isUndefinedString(node.left));
+				return isTypeofCheck && expected === isDefined;
+			}
+			return false;
+		}
+
+		/**
+		 * Checks whether the given statement exits the current block.
+		 */
+		function isExitStatement(node: TSESTree.Statement): boolean {
+			if (node.type === 'ReturnStatement' || node.type === 'ThrowStatement') {
+				return true;
+			}
+			return (
+				node.type === 'BlockStatement' &&
+				node.body.length > 0 &&
+				isExitStatement(node.body[node.body.length - 1])
+			);
+		}
+
+		/**
+		 * Checks whether the given child is guarded by the condition of the given parent.
+		 */
+		function isGuarded(child: Node, parent: Node): boolean {
+			switch (parent.type) {
+				case 'IfStatement':
+				case 'ConditionalExpression': {
+					if (child === parent.test) {
+						return false;
+					}
+					return isBrowserCondition(parent.test, child === parent.consequent);
+				}
+				case 'LogicalExpression': {
+					return (
+						child === parent.right &&
+						((parent.operator === '&&' && isBrowserCondition(parent.left, true)) ||
+							(parent.operator === '||' && isBrowserCondition(parent.left, false)))
+					);
+				}
+				case 'SvelteIfBlock': {
+					if (child === parent.expression) {
+						return false;
+					}
+					return isBrowserCondition(parent.expression, child !== parent.else);
+				}
+				case 'BlockStatement':
+				case 'Program':
+				case 'SvelteScriptElement': {
+					// e.g. `if (!browser) return;`
+					const body = parent.body as Node[];
+					const index = body.indexOf(child);
+					return body
+						.slice(0, Math.max(index, 0))
+						.some(
+							(statement) =>
+								statement.type === 'IfStatement' &&
+								!statement.alternate &&
+								isExitStatement(statement.consequent) &&
+								isBrowserCondition(statement.test, false)
+						);
+				}
+				default: {
+					return false;
+				}
+			}
+		}
+
+		/**
+		 * Checks whether the body of the given function is executed on the server.
+		 */
+		function isFunctionExecutedOnServer(node: TSESTree.FunctionLike): boolean {
+			const processed = processedFunctions.get(node);
+			if (processed != null) {
+				return processed;
+			}
+			// Avoid infinite recursion with recursive functions.
+			processedFunctions.set(node, false);
+			const result = isFunctionExecutedOnServerImpl(node);
+			processedFunctions.set(node, result);
+			return result;
+		}
+
+		/** Implementation of `isFunctionExecutedOnServer` */
+		function isFunctionExecutedOnServerImpl(node: TSESTree.FunctionLike): boolean {
+			const parent = node.parent;
+			if (parent.type === 'CallExpression') {
+				if (clientOnlyCalls.has(parent) || isEffectCallee(parent.callee)) {
+					// e.g. `onMount(() => {})`, `$effect(() => {})`
+					return false;
+				}
+				// e.g. IIFE, `$derived.by(() => {})`, `items.map(() => {})`
+				return isExecutedOnServer(parent);
+			}
+			let id: TSESTree.Identifier | null = null;
+			if (node.type === 'FunctionDeclaration') {
+				id = node.id;
+			} else if (
+				parent.type === 'VariableDeclarator' &&
+				parent.init === node &&
+				parent.id.type === 'Identifier'
+			) {
+				id = parent.id;
+			}
+			const variable = id && findVariable(context, id);
+			if (!variable) {
+				// e.g. methods. We cannot know when they are called.
+				return false;
+			}
+			return variable.references.some((reference) => {
+				const callee = reference.identifier;
+				return (
+					callee.parent?.type === 'CallExpression' &&
+					callee.parent.callee === callee &&
+					isExecutedOnServer(callee.parent)
+				);
+			});
+		}
+
+		/**
+		 * Checks whether the given node is executed on the server.
+		 */
+		function isExecutedOnServer(node: TSESTree.Node): boolean {
+			let child: Node = node;
+			let parent = node.parent as Node | null;
+			while (parent) {
+				if (isGuarded(child, parent)) {
+					return false;
+				}
+				if (
+					parent.type === 'ArrowFunctionExpression' ||
+					parent.type === 'FunctionExpression' ||
+					parent.type === 'FunctionDeclaration'
+				) {
+					return isFunctionExecutedOnServer(parent);
+				}
+				if (
+					(parent.type === 'SvelteAttribute' && parent.key.name.startsWith('on')) ||
+					(parent.type === 'SvelteDirective' &&
+						(parent.kind === 'EventHandler' || parent.kind === 'Action')) ||
+					parent.type === 'SvelteAttachTag'
+				) {
+					// Event handlers, actions and attachments are only used in the browser.
+					return false;
+				}
+				child = parent;
+				parent = parent.parent as Node | null;
+			}
+			return true;
+		}
+
+		/**
+		 * Checks whether the given node is the `typeof` of a browser global.
+		 */
+		function isTypeofBrowserGlobal(node: TSESTree.Node): boolean {
+			return (
+				node.type === 'UnaryExpression' &&
+				node.operator === 'typeof' &&
+				node.argument.type === 'Identifier' &&
+				BROWSER_GLOBALS.includes(node.argument.name)
+			);
+		}
+
+		return {
+			'Program:exit'() {
+				const globalScope = getSourceCode(context).scopeManager.globalScope!;
+				const referenceTracker = new ReferenceTracker(globalScope);
+				browserNodes = extractBrowserReferences(referenceTracker, context);
+				clientOnlyCalls = extractClientOnlyCalls(referenceTracker);
+				const nodes: { node: TSESTree.Node; name: string }[] = [];
+				for (const { node, path } of referenceTracker.iterateGlobalReferences(
+					Object.fromEntries(
+						BROWSER_GLOBALS.map((name) => [name, { [ReferenceTracker.READ]: true }])
+					)
+				)) {
+					nodes.push({ node: node as TSESTree.Node, name: path.join('.') });
+				}
+				// Globals that are not declared in the environment, e.g. without browser globals.
+				for (const reference of globalScope.through) {
+					const id = reference.identifier;
+					if (
+						id.type === 'Identifier' &&
+						BROWSER_GLOBALS.includes(id.name) &&
+						!globalScope.set.has(id.name)
+					) {
+						nodes.push({ node: id, name: id.name });
+					}
+				}
+
+				const reportedStarts = new Set<number>();
+				for (const { node, name } of nodes.sort(
+					(a, b) => a.node.range[0] - b.node.range[0] || a.node.range[1] - b.node.range[1]
+				)) {
+					if (
+						reportedStarts.has(node.range[0]) ||
+						(node.parent?.type === 'UnaryExpression' && node.parent.operator === 'typeof') ||
+						!isExecutedOnServer(node)
+					) {
+						continue;
+					}
+					// Report `window.localStorage` only once.
+					reportedStarts.add(node.range[0]);
+					context.report({
+						node,
+						messageId: 'unexpectedGlobal',
+						data: { name }
+					});
+				}
+			}
+		};
+	}
+});
+
+/**
+ * Checks whether the given callee is `$effect` or `$effect.pre`.
+ */
+function isEffectCallee(callee: TSESTree.Expression): boolean {
+	if (callee.type === 'Identifier') {
+		return callee.name === '$effect';
+	}
+	return (
+		callee.type === 'MemberExpression' &&
+		callee.object.type === 'Identifier' &&
+		callee.object.name === '$effect' &&
+		callee.property.type === 'Identifier' &&
+		callee.property.name === 'pre'
+	);
+}
+
+/**
+ * Checks whether the given node is the string `'undefined'`.
+ */
+function isUndefinedString(node: TSESTree.Node): boolean {
+	return node.type === 'Literal' && node.value === 'undefined';
+}
+
+// Extract all references to `browser` from `$app/environment`
+
+function extractBrowserReferences(
+	referenceTracker: ReferenceTracker,
+	context: RuleContext
+): Set<TSESTree.Node> {
+	const set = new Set<TSESTree.Node>();
+	for (const { node } of referenceTracker.iterateEsmReferences({
+		'$app/environment': {
+			[ReferenceTracker.ESM]: true,
+			browser: {
+				[ReferenceTracker.READ]: true
+			}
+		}
+	})) {
+		if (node.type === 'ImportSpecifier') {
+			const variable = findVariable(context, node.local);
+			if (variable === null) {
+				continue;
+			}
+			for (const reference of variable.references) {
+				if (reference.identifier.type === 'Identifier') set.add(reference.identifier);
+			}
+		} else {
+			set.add(node as TSESTree.Node);
+		}
+	}
+	return set;
+}
+
+// Extract all calls that run the callback only in the browser
+
+function extractClientOnlyCalls(referenceTracker: ReferenceTracker): Set<TSESTree.Node> {
+	const set = new Set<TSESTree.Node>();
+	for (const { node } of referenceTracker.iterateEsmReferences({
+		svelte: {
+			[ReferenceTracker.ESM]: true,
+			onMount: { [ReferenceTracker.CALL]: true },
+			afterUpdate: { [ReferenceTracker.CALL]: true }
+		},
+		'$app/navigation': {
+			[ReferenceTracker.ESM]: true,
+			afterNavigate: { [ReferenceTracker.CALL]: true },
+			beforeNavigate: { [ReferenceTracker.CALL]: true },
+			onNavigate: { [ReferenceTracker.CALL]: true }
+		}
+	})) {
+		set.add(node as TSESTree.Node);
+	}
+	return set;
+}
@@ -0,0 +1,428 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { AnyNode, Rule as StyleRule } from 'postcss';
+import type {
+	Attribute as SelectorAttribute,
+	Node as SelectorNode,
+	Selector
+} from 'postcss-selector-parser';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { getNodeName } from '../utils/ast-utils.js';
+import { getClassNameList } from '../utils/class-names.js';
+import type { ClassNameList } from '../utils/class-names.js';
+
+type TemplateElement = {
+	node: AST.SvelteHTMLElement | AST.SvelteSpecialElement;
+	/** `true` if the element is `<svelte:element>`, whose tag name is dynamic. */
+	anyTag: boolean;
+	classes: ClassNameList;
+	/** The static attribute values. `null` if the value is dynamic. */
+	attributes: Map<string, string | null>;
+	/** `true` if the element has a spread attribute. */
+	anyAttribute: boolean;
+	parent: TemplateElement | null;
+	/** `true` if there is a component between the element and its parent. */
+	parentIsIndirect: boolean;
+	/** `true` if there is an `{#each}` block between the element and its parent, so it may be its own sibling. */
+	repeated: boolean;
+	children: TemplateElement[];
+	/** The elements that have the same parent, including the element itself. */
+	siblings: TemplateElement[];
+};
+
+type ComplexSelector = {
+	compounds: SelectorNode[][];
+	/** The combinators between the compounds. */
+	combinators: string[];
+};
+
+export default createRule('no-unmatched-selector', {
+	meta: {
+		docs: {
+			description: 'disallow selectors in `<style>` that cannot match any element in the template',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		hasSuggestions: true,
+		schema: [],
+		messages: {
+			unmatchedSelector: 'Selector "{{selector}}" does not match any element in the template.',
+			wrapInGlobal: 'Wrap the selector in `:global()`.'
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const { getStyleSelectorAST, styleSelectorNodeLoc } = sourceCode.parserServices;
+		if (!sourceCode.parserServices.isSvelte || !getStyleSelectorAST || !styleSelectorNodeLoc) {
+			return {};
+		}
+		const roots: TemplateElement[] = [];
+		const elements: TemplateElement[] = [];
+		const elementMap = new Map<AST.SvelteElement, TemplateElement>();
+
+		/**
+		 * Finds the nearest element that contains the given element.
+		 */
+		function findParent(node: AST.SvelteElement): {
+			parent: TemplateElement | null;
+			indirect: boolean;
+			repeated: boolean;
+		} {
+			let indirect = false;
+			let repeated = false;
+			for (let target = node.parent; target; target = target.parent) {
+				if (target.type !== 'SvelteElement') {
+					repeated ||= target.type === 'SvelteEachBlock';
+					continue;
+				}
+				const parent = elementMap.get(target);
+				if (parent) {
+					return { parent, indirect, repeated };
+				}
+				indirect ||= target.kind === 'component';
+			}
+			return { parent: null, indirect, repeated };
+		}
+
+		/**
+		 * Checks whether any element matches the given selector.
+		 */
+		function matchesAny(selector: Selector, rule: StyleRule): boolean {
+			const complex = toComplexSelector(selector);
+			return elements.some((element) =>
+				matchesComplex(complex, complex.compounds.length - 1, element, rule)
+			);
+		}
+
+		/**
+		 * Checks whether the given element matches the compounds of the selector up to the given index.
+		 */
+		function matchesComplex(
+			complex: ComplexSelector,
+			index: number,
+			element: TemplateElement,
+			rule: StyleRule
+		): boolean {
+			const compound = complex.compounds[index];
+			if (compound.some(isGlobalPseudo)) {
+				// The global part may match any element, even outside of the component.
+				return (
+					index === 0 ||
+					elements.some((candidate) => matchesComplex(complex, index - 1, candidate, rule))
+				);
+			}
+			if (!compound.every((node) => matchesSimple(node, element, rule))) {
+				return false;
+			}
+			if (index === 0) {
+				if (compound.some((node) => node.type === 'nesting') || !isNestedRule(rule)) {
+					return true;
+				}
+				// The nested rule without `&` is a descendant of the parent rule.
+				return getAncestors(element).some((ancestor) => matchesParentRule(rule, ancestor));
+			}
+			if (complex.compounds[index - 1].some(isGlobalPseudo)) {
+				return matchesComplex(complex, index - 1, element, rule);
+			}
+			return getCandidates(element, complex.combinators[index - 1]).some((candidate) =>
+				matchesComplex(complex, index - 1, candidate, rule)
+			);
+		}
+
+		/**
+		 * Checks whether the given element matches the parent rule of the given nested rule.
+		 */
+		function matchesParentRule(rule: StyleRule, element: TemplateElement): boolean {
+			const parentRule = rule.parent as StyleRule;
+			return getStyleSelectorAST!(parentRule).nodes.some((selector) => {
+				if (hasGlobalBlock(selector)) {
+					return true;
+				}
+				const complex = toComplexSelector(selector);
+				return matchesComplex(complex, complex.compounds.length - 1, element, parentRule);
+			});
+		}
+
+		/**
+		 * Checks whether the given element matches the simple selector.
+		 */
+		function matchesSimple(node: SelectorNode, element: TemplateElement, rule: StyleRule): boolean {
+			switch (node.type) {
+				case 'tag': {
+					return element.anyTag || node.value.toLowerCase() === getTagName(element);
+				}
+				case 'class': {
+					return (
+						element.classes.dynamic ||
+						element.classes.names.includes(node.value) ||
+						element.classes.prefixes.some((prefix) => node.value.startsWith(prefix))
+					);
+				}
+				case 'id': {
+					return matchesAttributeValue(element, 'id', (value) => value === node.value);
+				}
+				case 'attribute': {
+					return matchesAttribute(node, element);
+				}
+				case 'nesting': {
+					return isNestedRule(rule) && matchesParentRule(rule, element);
+				}
+				case 'pseudo': {
+					if (node.value === ':is' || node.value === ':where') {
+						return node.nodes.some((selector) => {
+							const complex = toComplexSelector(selector);
+							return (
+								complex.compounds.length > 1 ||
+								complex.compounds[0].every((simple) => matchesSimple(simple, element, rule))
+							);
+						});
+					}
+					// Other pseudo-classes and pseudo-elements depend on the state of the document.
+					return true;
+				}
+				default: {
+					return true;
+				}
+			}
+		}
+
+		return {
+			SvelteElement(node) {
+				const anyTag = node.kind === 'special' && node.name.name === 'svelte:element';
+				if (node.kind !== 'html' && !anyTag) {
+					return;
+				}
+				const { parent, indirect, repeated } = findParent(node);
+				const element: TemplateElement = {
+					node,
+					anyTag,
+					classes: getClassNameList(context, node),
+					attributes: new Map(),
+					anyAttribute: false,
+					parent,
+					parentIsIndirect: indirect,
+					repeated,
+					children: [],
+					siblings: parent?.children ?? roots
+				};
+				for (const attr of node.startTag.attributes) {
+					if (attr.type === 'SvelteSpreadAttribute') {
+						element.anyAttribute = true;
+					} else if (attr.type === 'SvelteAttribute') {
+						element.attributes.set(
+							attr.key.name,
+							attr.value.every((value) => value.type === 'SvelteLiteral')
+								? attr.value.map((value) => value.value).join('')
+								: null
+						);
+					} else if (attr.type === 'SvelteShorthandAttribute') {
+						element.attributes.set(attr.key.name, null);
+					} else if (attr.type === 'SvelteDirective' && attr.kind === 'Binding') {
+						element.attributes.set(attr.key.name.name, null);
+					}
+				}
+				element.siblings.push(element);
+				elements.push(element);
+				elementMap.set(node, element);
+			},
+			'Program:exit'() {
+				const styleContext = sourceCode.parserServices.getStyleContext!();
+				if (styleContext.status !== 'success') {
+					return;
+				}
+
+				/**
+				 * Verify the rules in the given PostCSS node.
+				 */
+				function verifyNode(node: AnyNode) {
+					if (node.type === 'atrule' && /keyframes$/iu.test(node.name)) {
+						return;
+					}
+					if (node.type === 'rule') {
+						if (node.selector === ':global') {
+							return;
+						}
+						verifyRule(node);
+					}
+					if (
+						(node.type === 'root' || node.type === 'rule' || node.type === 'atrule') &&
+						node.nodes
+					) {
+						node.nodes.forEach(verifyNode);
+					}
+				}
+
+				/**
+				 * Verify the selectors of the given rule.
+				 */
+				function verifyRule(rule: StyleRule) {
+					for (const selector of getStyleSelectorAST!(rule).nodes) {
+						if (
+							selector.nodes.length === 0 ||
+							hasGlobalBlock(selector) ||
+							matchesAny(selector, rule)
+						) {
+							continue;
+						}
+						const loc = {
+							start: styleSelectorNodeLoc!(selector.first).start!,
+							end: styleSelectorNodeLoc!(selector.last).end!
+						};
+						const range: AST.Range = [
+							sourceCode.getIndexFromLoc(loc.start),
+							sourceCode.getIndexFromLoc(loc.end)
+						];
+						const text = sourceCode.text.slice(...range);
+						context.report({
+							loc,
+							messageId: 'unmatchedSelector',
+							data: { selector: text },
+							// `:global()` cannot be nested and cannot contain `&`.
+							suggest: selector.nodes.some(
+								(node) => isGlobalPseudo(node) || node.type === 'nesting'
+							)
+								? []
+								: [
+										{
+											messageId: 'wrapInGlobal',
+											fix: (fixer) => fixer.replaceTextRange(range, `:global(${text})`)
+										}
+									]
+						});
+					}
+				}
+
+				verifyNode(styleContext.sourceAst);
+			}
+		};
+	}
+});
+
+/**
+ * Splits the given selector into compounds.
+ */
+function toComplexSelector(selector: Selector): ComplexSelector {
+	const complex: ComplexSelector = { compounds: [[]], combinators: [] };
+	for (const node of selector.nodes) {
+		if (node.type === 'combinator') {
+			complex.compounds.push([]);
+			complex.combinators.push(node.value.trim());
+		} else if (node.type !== 'comment') {
+			complex.compounds[complex.compounds.length - 1].push(node);
+		}
+	}
+	return complex;
+}
+
+/**
+ * Checks whether the given node is `:global(...)`.
+ */
+function isGlobalPseudo(node: SelectorNode): boolean {
+	return node.type === 'pseudo' && node.value === ':global';
+}
+
+/**
+ * Checks whether the given selector has `:global` without arguments, e.g. `:global .foo`.
+ */
+function hasGlobalBlock(selector: Selector): boolean {
+	return selector.nodes.some(
+		(node) => node.type === 'pseudo' && node.value === ':global' && node.nodes.length === 0
+	);
+}
+
+/**
+ * Checks whether the given rule is nested in another rule.
+ */
+function isNestedRule(rule: StyleRule): boolean {
+	return rule.parent?.type === 'rule';
+}
+
+/**
+ * Gets the lower-cased tag name of the given element.
+ */
+function getTagName(element: TemplateElement): string {
+	return getNodeName(element.node).toLowerCase();
+}
+
+/**
+ * Gets the ancestors of the given element.
+ */
+function getAncestors(element: TemplateElement): TemplateElement[] {
+	const ancestors: TemplateElement[] = [];
+	for (let parent = element.parent; parent; parent = parent.parent) {
+		ancestors.push(parent);
+	}
+	return ancestors;
+}
+
+/**
+ * Gets the elements that may be selected by the left side of the given combinator.
+ */
+function getCandidates(element: TemplateElement, combinator: string): TemplateElement[] {
+	if (combinator === '>') {
+		if (element.parentIsIndirect) {
+			// The component may render the element anywhere in its markup.
+			return getAncestors(element);
+		}
+		return element.parent ? [element.parent] : [];
+	}
+	if (combinator === '+' || combinator === '~') {
+		// Blocks may change the order of the siblings, so all siblings are candidates.
+		// The element repeated by `{#each}` is also a sibling of itself.
+		return element.repeated
+			? element.siblings
+			: element.siblings.filter((sibling) => sibling !== element);
+	}
+	return getAncestors(element);
+}
+
+/**
+ * Checks whether the given element has the attribute whose value matches the given predicate.
+ */
+function matchesAttributeValue(
+	element: TemplateElement,
+	name: string,
+	predicate: (value: string) => boolean
+): boolean {
+	if (element.anyAttribute) {
+		return true;
+	}
+	if (!element.attributes.has(name)) {
+		return false;
+	}
+	const value = element.attributes.get(name);
+	return value == null || predicate(value);
+}
+
+/**
+ * Checks whether the given element matches the attribute selector.
+ */
+function matchesAttribute(node: SelectorAttribute, element: TemplateElement): boolean {
+	const name = node.attribute.toLowerCase();
+	if (name === 'class' && (element.classes.names.length > 0 || element.classes.dynamic)) {
+		return true;
+	}
+	const expected = node.value ?? '';
+	const insensitive = Boolean(node.insensitive);
+	return matchesAttributeValue(element, name, (value) => {
+		const actual = insensitive ? value.toLowerCase() : value;
+		const target = insensitive ? expected.toLowerCase() : expected;
+		switch (node.operator) {
+			case '=':
+				return actual === target;
+			case '~=':
+				return actual.split(/\s+/u).includes(target);
+			case '|=':
+				return actual === target || actual.startsWith(`${target}-`);
+			case '^=':
+				return actual.startsWith(target);
+			case '$=':
+				return actual.endsWith(target);
+			case '*=':
+				return actual.includes(target);
+			default:
+				return true;
+		}
+	});
+}
@@ -0,0 +1,197 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import { getPropertyName } from '@eslint-community/eslint-utils';
+import semver from 'semver';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { findVariable, iterateIdentifiers } from '../utils/ast-utils.js';
+import { getReassignData } from './reference-helpers/reassign.js';
+import type { ReassignData } from './reference-helpers/reassign.js';
+
+/**
+ * Checks whether the given node is a call to the given rune, e.g. `$derived(...)` or `$derived.by(...)`.
+ */
+function isRuneCall(node: TSESTree.Node | null | undefined, rune: string): boolean {
+	if (node?.type !== 'CallExpression') {
+		return false;
+	}
+	const callee = node.callee;
+	if (callee.type === 'Identifier') {
+		return callee.name === rune;
+	}
+	return (
+		callee.type === 'MemberExpression' &&
+		callee.object.type === 'Identifier' &&
+		callee.object.name === rune
+	);
+}
+
+/**
+ * Gets how deep the reassign writes into the value.
+ * e.g. `foo = 1` is 0, `foo.push(1)` and `foo.bar = 1` are 1, `foo.bar.push(1)` is 2.
+ */
+function getMutationDepth(reassign: ReassignData): number {
+	return reassign.pathNodes.length + (reassign.node.type === 'CallExpression' ? 1 : 0);
+}
+
+export default createRule('no-unsafe-rune-mutation', {
+	meta: {
+		docs: {
+			description:
+				'disallow reassigning `$derived` values and mutating props not declared as `$bindable`',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					derived: {
+						type: 'boolean'
+					},
+					props: {
+						type: 'boolean'
+					},
+					deepMutation: {
+						type: 'boolean'
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			assignmentToDerived: "Assignment to `$derived` value '{{name}}'.",
+			assignmentToProp: "Assignment to prop '{{name}}' that is not declared with `$bindable()`.",
+			mutationOfProp:
+				"Mutation of prop '{{name}}' that is owned by the parent component. Declare it with `$bindable()` or copy it into a `$state`."
+		},
+		type: 'problem',
+		conditions: [
+			{
+				svelteVersions: ['5'],
+				runes: [true, 'undetermined']
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		// Svelte v5.25+ allows assigning to `$derived` values to override them temporarily.
+		const compilerVersion = sourceCode.parserServices.svelteParseContext?.compilerVersion;
+		const checkDerived: boolean =
+			context.options[0]?.derived ??
+			!(compilerVersion && semver.satisfies(compilerVersion, '>=5.25.0-0'));
+		const checkProps = context.options[0]?.props !== false; // default true
+		const checkDeepMutation = context.options[0]?.deepMutation !== false; // default true
+
+		/**
+		 * Iterates the references of the given variable that are not its declaration.
+		 */
+		function* iterateReferences(variable: Variable) {
+			for (const reference of variable.references) {
+				if (reference.init || reference.identifier.type !== 'Identifier') {
+					continue;
+				}
+				yield reference.identifier;
+			}
+		}
+
+		/**
+		 * Verify the given variable declared with `$derived`.
+		 */
+		function verifyDerived(variable: Variable) {
+			for (const id of iterateReferences(variable)) {
+				const reassign = getReassignData(id);
+				if (!reassign || getMutationDepth(reassign) > 0) {
+					continue;
+				}
+				context.report({
+					node: reassign.node,
+					messageId: 'assignmentToDerived',
+					data: { name: id.name }
+				});
+			}
+		}
+
+		/**
+		 * Verify the given variable that holds a prop (or a set of props) passed from the parent.
+		 * `nameFromPath` is true if the variable holds the props object itself, i.e. `let props = $props()`.
+		 */
+		function verifyProp(variable: Variable, nameFromPath: boolean) {
+			for (const id of iterateReferences(variable)) {
+				const reassign = getReassignData(id);
+				if (!reassign) {
+					continue;
+				}
+				const depth = nameFromPath ? getMutationDepth(reassign) - 1 : getMutationDepth(reassign);
+				const name =
+					nameFromPath && reassign.pathNodes.length > 0
+						? (getPropertyName(reassign.pathNodes[0]) ?? id.name)
+						: id.name;
+				if (depth <= 0) {
+					if (checkProps) {
+						context.report({
+							node: reassign.node,
+							messageId: 'assignmentToProp',
+							data: { name }
+						});
+					}
+				} else if (checkDeepMutation) {
+					context.report({
+						node: reassign.node,
+						messageId: 'mutationOfProp',
+						data: { name }
+					});
+				}
+			}
+		}
+
+		/**
+		 * Verify the given `$props()` declaration.
+		 */
+		function verifyPropsDeclaration(id: TSESTree.BindingName) {
+			if (id.type === 'Identifier') {
+				const variable = findVariable(context, id);
+				if (variable) verifyProp(variable, true);
+				return;
+			}
+			if (id.type !== 'ObjectPattern') {
+				return;
+			}
+			for (const property of id.properties) {
+				if (property.type === 'RestElement') {
+					if (property.argument.type === 'Identifier') {
+						const variable = findVariable(context, property.argument);
+						if (variable) verifyProp(variable, true);
+					}
+					continue;
+				}
+				const value = property.value as TSESTree.DestructuringPattern;
+				if (value.type === 'AssignmentPattern' && isRuneCall(value.right, '$bindable')) {
+					continue;
+				}
+				for (const propId of iterateIdentifiers(value)) {
+					const variable = findVariable(context, propId);
+					if (variable) verifyProp(variable, false);
+				}
+			}
+		}
+
+		return {
+			VariableDeclarator(node: TSESTree.VariableDeclarator) {
+				if (checkDerived && isRuneCall(node.init, '$derived')) {
+					for (const id of iterateIdentifiers(node.id)) {
+						const variable = findVariable(context, id);
+						if (variable) verifyDerived(variable);
+					}
+				} else if (
+					(checkProps || checkDeepMutation) &&
+					node.init?.type === 'CallExpression' &&
+					node.init.callee.type === 'Identifier' &&
+					node.init.callee.name === '$props'
+				) {
+					verifyPropsDeclaration(node.id);
+				}
+			}
+		};
+	}
+});
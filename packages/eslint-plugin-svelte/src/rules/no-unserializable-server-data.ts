@@ -0,0 +1,508 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { findVariable } from '../utils/ast-utils.js';
+import { getTypeScriptTools } from '../utils/ts-utils/index.js';
+import type { TS, TSTools } from '../utils/ts-utils/index.js';
+
+/** The built-in classes that `devalue` can serialize. */
+const SERIALIZABLE_CLASSES = [
+	'Date',
+	'RegExp',
+	'Map',
+	'Set',
+	'URL',
+	'URLSearchParams',
+	'Promise',
+	'ArrayBuffer',
+	'Int8Array',
+	'Uint8Array',
+	'Uint8ClampedArray',
+	'Int16Array',
+	'Uint16Array',
+	'Int32Array',
+	'Uint32Array',
+	'Float32Array',
+	'Float64Array',
+	'BigInt64Array',
+	'BigUint64Array'
+];
+
+const MESSAGE_IDS = {
+	function: 'unexpectedFunction',
+	symbol: 'unexpectedSymbol',
+	classInstance: 'unexpectedClassInstance'
+} as const;
+
+type Problem = {
+	node: TSESTree.Node;
+	/** The path to the value from the returned value, e.g. `['user', 'save']`, `['items', '[]']` */
+	path: string[];
+	kind: keyof typeof MESSAGE_IDS;
+	className?: string;
+};
+
+/**
+ * Unwraps type assertions, e.g. `{ ... } satisfies PageServerLoad`.
+ */
+function unwrapExpression(node: TSESTree.Node): TSESTree.Node {
+	let result = node;
+	while (
+		result.type === 'TSAsExpression' ||
+		result.type === 'TSSatisfiesExpression' ||
+		result.type === 'TSNonNullExpression' ||
+		result.type === 'AwaitExpression'
+	) {
+		result = result.type === 'AwaitExpression' ? result.argument : result.expression;
+	}
+	return result;
+}
+
+/**
+ * Checks whether the given node is a function.
+ */
+function isFunction(node: TSESTree.Node): node is TSESTree.FunctionLike {
+	return (
+		node.type === 'ArrowFunctionExpression' ||
+		node.type === 'FunctionExpression' ||
+		node.type === 'FunctionDeclaration'
+	);
+}
+
+/**
+ * Gets the static name of the given property key.
+ */
+function getStaticKeyName(property: TSESTree.Property): string | null {
+	if (!property.computed && property.key.type === 'Identifier') {
+		return property.key.name;
+	}
+	if (property.key.type === 'Literal' && typeof property.key.value === 'string') {
+		return property.key.value;
+	}
+	return null;
+}
+
+/**
+ * Gets the most specific node in the given expression that corresponds to the given path.
+ */
+function findNodeByPath(expression: TSESTree.Node, path: string[]): TSESTree.Node {
+	let node = unwrapExpression(expression);
+	for (const name of path) {
+		if (node.type !== 'ObjectExpression') {
+			break;
+		}
+		const property = [...node.properties]
+			.reverse()
+			.find((p): p is TSESTree.Property => p.type === 'Property' && getStaticKeyName(p) === name);
+		if (!property) {
+			break;
+		}
+		node = unwrapExpression(property.value);
+	}
+	return node;
+}
+
+/**
+ * Formats the given path, e.g. `user.tags[]`.
+ */
+function formatPath(path: string[]): string {
+	return path.reduce(
+		(result, name) => (name.startsWith('[') || !result ? `${result}${name}` : `${result}.${name}`),
+		''
+	);
+}
+
+export default createRule('no-unserializable-server-data', {
+	meta: {
+		docs: {
+			description:
+				'disallow returning values that cannot be serialized from server `load` functions and form actions',
+			category: 'SvelteKit',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					allowedClasses: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			unexpectedFunction: '{{name}} is a function, which cannot be serialized.',
+			unexpectedSymbol: '{{name}} is a symbol, which cannot be serialized.',
+			unexpectedClassInstance:
+				'{{name}} is an instance of `{{className}}`, which cannot be serialized.'
+		},
+		type: 'problem',
+		conditions: [
+			{
+				svelteKitFileTypes: ['+page.server.[js|ts]', '+layout.server.[js|ts]']
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const tools = getTypeScriptTools(context);
+		const allowedClasses: string[] = context.options[0]?.allowedClasses ?? [];
+		const serverFunctions = new Set<TSESTree.Node>();
+		const returnStatements: TSESTree.ReturnStatement[] = [];
+
+		/**
+		 * Collects the problems in the given type.
+		 * `checked` maps each checked type to the problems of the type itself, e.g. a function.
+		 * Those are reported again wherever the type is used, but the members of a type are
+		 * checked only once and reported at the first path found, so that types shared by
+		 * many properties are not checked for every path, and recursive types terminate.
+		 */
+		function checkType(
+			tsTools: TSTools,
+			type: TS.Type,
+			path: string[],
+			problems: Omit<Problem, 'node'>[],
+			checked: Map<TS.Type, Omit<Problem, 'node' | 'path'>[]>
+		) {
+			const checkedProblems = checked.get(type);
+			if (checkedProblems) {
+				for (const problem of checkedProblems) {
+					problems.push({ ...problem, path });
+				}
+				return;
+			}
+			const ownProblems: Omit<Problem, 'node' | 'path'>[] = [];
+			checked.set(type, ownProblems);
+			const start = problems.length;
+			checkTypeMembers(tsTools, type, path, problems, checked);
+			for (const { path: problemPath, ...problem } of problems.slice(start)) {
+				if (problemPath.length === path.length) {
+					ownProblems.push(problem);
+				}
+			}
+		}
+
+		/**
+		 * Collects the problems in the given type, which is not checked yet.
+		 */
+		function checkTypeMembers(
+			tsTools: TSTools,
+			type: TS.Type,
+			path: string[],
+			problems: Omit<Problem, 'node'>[],
+			checked: Map<TS.Type, Omit<Problem, 'node' | 'path'>[]>
+		) {
+			const { ts } = tsTools;
+			const { program } = tsTools.service;
+			const checker = program.getTypeChecker();
+			if (type.isUnion() || type.isIntersection()) {
+				for (const t of type.types) {
+					checkType(tsTools, t, path, problems, checked);
+				}
+				return;
+			}
+			if ((type.flags & ts.TypeFlags.ESSymbolLike) !== 0) {
+				problems.push({ path, kind: 'symbol' });
+				return;
+			}
+			if ((type.flags & ts.TypeFlags.Object) === 0) {
+				// e.g. primitives, `any`, `unknown`
+				return;
+			}
+			if (checker.isArrayType(type) || checker.isTupleType(type)) {
+				for (const elementType of checker.getTypeArguments(type as TS.TypeReference)) {
+					checkType(tsTools, elementType, [...path, '[]'], problems, checked);
+				}
+				return;
+			}
+			if (type.getCallSignatures().length > 0 || type.getConstructSignatures().length > 0) {
+				problems.push({ path, kind: 'function' });
+				return;
+			}
+			const symbol = type.getSymbol();
+			const name = symbol?.getName() ?? '';
+			if (allowedClasses.includes(name)) {
+				return;
+			}
+			const declarations = symbol?.getDeclarations() ?? [];
+			if (
+				SERIALIZABLE_CLASSES.includes(name) &&
+				declarations.length > 0 &&
+				// e.g. `URL` is declared in `@types/node` without the DOM library.
+				declarations.every((d) => d.getSourceFile().isDeclarationFile)
+			) {
+				// e.g. `Map<string, Foo>`, `Promise<Foo>`
+				const itemPath = name === 'Promise' ? path : [...path, '[]'];
+				for (const typeArgument of checker.getTypeArguments(type as TS.TypeReference)) {
+					checkType(tsTools, typeArgument, itemPath, problems, checked);
+				}
+				return;
+			}
+			if (
+				symbol &&
+				(symbol.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Interface)) !== 0 &&
+				declarations.length > 0 &&
+				declarations.every((d) => program.isSourceFileDefaultLibrary(d.getSourceFile()))
+			) {
+				// e.g. `Error`, `WeakMap`
+				problems.push({ path, kind: 'classInstance', className: name });
+				return;
+			}
+			if (name === 'ActionFailure') {
+				// The data of `fail(400, data)`
+				const data = type.getProperty('data');
+				if (data) {
+					checkType(tsTools, checker.getTypeOfSymbol(data), path, problems, checked);
+				}
+				return;
+			}
+			if (symbol && (symbol.flags & ts.SymbolFlags.Class) !== 0) {
+				problems.push({ path, kind: 'classInstance', className: name });
+				return;
+			}
+			for (const property of checker.getPropertiesOfType(type)) {
+				const propertyPath = [...path, property.getName()];
+				if ((property.flags & ts.SymbolFlags.Method) !== 0) {
+					problems.push({ path: propertyPath, kind: 'function' });
+					continue;
+				}
+				checkType(tsTools, checker.getTypeOfSymbol(property), propertyPath, problems, checked);
+			}
+			for (const indexInfo of checker.getIndexInfosOfType(type)) {
+				// e.g. `Record<string, Foo>`
+				checkType(tsTools, indexInfo.type, [...path, '[]'], problems, checked);
+			}
+		}
+
+		/**
+		 * Collects the problems in the given expression without type information.
+		 */
+		function checkExpression(
+			expression: TSESTree.Node,
+			path: string[],
+			problems: Problem[],
+			checkedVariables: Set<string>
+		) {
+			const node = unwrapExpression(expression);
+			if (isFunction(node) || node.type === 'ClassExpression') {
+				problems.push({ node, path, kind: 'function' });
+				return;
+			}
+			if (node.type === 'ObjectExpression') {
+				for (const property of node.properties) {
+					if (property.type === 'SpreadElement') {
+						checkExpression(property.argument, path, problems, checkedVariables);
+						continue;
+					}
+					if (property.kind !== 'init') {
+						continue;
+					}
+					const propertyPath = [
+						...path,
+						getStaticKeyName(property) ?? `[${sourceCode.getText(property.key)}]`
+					];
+					checkExpression(property.value, propertyPath, problems, checkedVariables);
+				}
+				return;
+			}
+			if (node.type === 'ArrayExpression') {
+				node.elements.forEach((element, index) => {
+					if (!element) {
+						return;
+					}
+					if (element.type === 'SpreadElement') {
+						checkExpression(element.argument, [...path, '[]'], problems, checkedVariables);
+					} else {
+						checkExpression(element, [...path, `[${index}]`], problems, checkedVariables);
+					}
+				});
+				return;
+			}
+			if (node.type === 'ConditionalExpression') {
+				checkExpression(node.consequent, path, problems, checkedVariables);
+				checkExpression(node.alternate, path, problems, checkedVariables);
+				return;
+			}
+			if (node.type === 'LogicalExpression') {
+				if (node.operator !== '&&') {
+					checkExpression(node.left, path, problems, checkedVariables);
+				}
+				checkExpression(node.right, path, problems, checkedVariables);
+				return;
+			}
+			if (node.type === 'NewExpression') {
+				const name = node.callee.type === 'Identifier' ? node.callee.name : null;
+				if (name && (SERIALIZABLE_CLASSES.includes(name) || allowedClasses.includes(name))) {
+					return;
+				}
+				problems.push({
+					node,
+					path,
+					kind: 'classInstance',
+					className: name ?? sourceCode.getText(node.callee)
+				});
+				return;
+			}
+			if (node.type === 'CallExpression') {
+				const callee = node.callee;
+				if (
+					(callee.type === 'Identifier' && callee.name === 'Symbol') ||
+					(callee.type === 'MemberExpression' &&
+						callee.object.type === 'Identifier' &&
+						callee.object.name === 'Symbol')
+				) {
+					// e.g. `Symbol('foo')`, `Symbol.for('foo')`
+					problems.push({ node, path, kind: 'symbol' });
+				} else if (callee.type === 'Identifier' && callee.name === 'fail' && node.arguments[1]) {
+					// e.g. `fail(400, { message })`
+					checkExpression(node.arguments[1], path, problems, checkedVariables);
+				}
+				return;
+			}
+			if (
+				node.type === 'MemberExpression' &&
+				node.object.type === 'Identifier' &&
+				node.object.name === 'Symbol'
+			) {
+				// e.g. `Symbol.iterator`
+				problems.push({ node, path, kind: 'symbol' });
+				return;
+			}
+			if (node.type === 'Identifier') {
+				const variable = findVariable(context, node);
+				const def = variable?.defs[0];
+				if (!variable || !def || checkedVariables.has(variable.name)) {
+					return;
+				}
+				if (def.type === 'FunctionName' || def.type === 'ClassName') {
+					problems.push({ node, path, kind: 'function' });
+				} else if (
+					def.type === 'Variable' &&
+					def.parent.kind === 'const' &&
+					def.node.id === def.name &&
+					def.node.init
+				) {
+					// e.g. `const user = { name, save() {} }; return { user };`
+					checkExpression(
+						def.node.init,
+						path,
+						problems,
+						new Set([...checkedVariables, variable.name])
+					);
+				}
+			}
+		}
+
+		/**
+		 * Verify the given value returned by a server `load` function or a form action.
+		 */
+		function verifyReturnedValue(expression: TSESTree.Node) {
+			let problems: Problem[] = [];
+			const tsNode = tools?.service.esTreeNodeToTSNodeMap.get(expression);
+			if (tools && tsNode) {
+				const checker = tools.service.program.getTypeChecker();
+				const type = checker.getTypeAtLocation(tsNode);
+				const typeProblems: Omit<Problem, 'node'>[] = [];
+				checkType(tools, checker.getAwaitedType(type) ?? type, [], typeProblems, new Map());
+				problems = typeProblems.map((problem) => ({
+					...problem,
+					node: findNodeByPath(expression, problem.path)
+				}));
+			} else {
+				checkExpression(expression, [], problems, new Set());
+			}
+			const reported = new Set<string>();
+			for (const { node, path, kind, className } of problems) {
+				const formattedPath = formatPath(path);
+				const key = `${kind}:${formattedPath}:${className}`;
+				if (reported.has(key)) {
+					continue;
+				}
+				reported.add(key);
+				context.report({
+					node,
+					messageId: MESSAGE_IDS[kind],
+					data: {
+						name: formattedPath ? `\`${formattedPath}\`` : 'The returned value',
+						className: className ?? ''
+					}
+				});
+			}
+		}
+
+		/**
+		 * Registers the functions exported with the given name, i.e. `load` and `actions`.
+		 */
+		function registerExport(name: string, value: TSESTree.Node | null | undefined) {
+			if (!value) {
+				return;
+			}
+			const node = unwrapExpression(value);
+			if (name === 'load' && isFunction(node)) {
+				serverFunctions.add(node);
+			} else if (name === 'actions' && node.type === 'ObjectExpression') {
+				for (const property of node.properties) {
+					if (property.type !== 'Property') {
+						continue;
+					}
+					const action = unwrapExpression(property.value);
+					if (isFunction(action)) {
+						serverFunctions.add(action);
+					}
+				}
+			}
+		}
+
+		return {
+			'Program > ExportNamedDeclaration'(node: TSESTree.ExportNamedDeclaration) {
+				const declaration = node.declaration;
+				if (declaration?.type === 'FunctionDeclaration' && declaration.id) {
+					registerExport(declaration.id.name, declaration);
+				} else if (declaration?.type === 'VariableDeclaration') {
+					for (const declarator of declaration.declarations) {
+						if (declarator.id.type === 'Identifier') {
+							registerExport(declarator.id.name, declarator.init);
+						}
+					}
+				}
+				if (node.source) {
+					return;
+				}
+				// e.g. `export { load }`
+				for (const specifier of node.specifiers) {
+					if (specifier.local.type !== 'Identifier' || specifier.exported.type !== 'Identifier') {
+						continue;
+					}
+					const def = findVariable(context, specifier.local)?.defs[0];
+					if (def?.type === 'FunctionName') {
+						registerExport(specifier.exported.name, def.node);
+					} else if (def?.type === 'Variable') {
+						registerExport(specifier.exported.name, def.node.init);
+					}
+				}
+			},
+			ReturnStatement(node: TSESTree.ReturnStatement) {
+				returnStatements.push(node);
+			},
+			'Program:exit'() {
+				for (const node of serverFunctions) {
+					if (node.type === 'ArrowFunctionExpression' && node.body.type !== 'BlockStatement') {
+						verifyReturnedValue(node.body);
+					}
+				}
+				for (const node of returnStatements) {
+					let fn: TSESTree.Node | undefined = node.parent;
+					while (fn && !isFunction(fn)) {
+						fn = fn.parent;
+					}
+					if (node.argument && fn && serverFunctions.has(fn)) {
+						verifyReturnedValue(node.argument);
+					}
+				}
+			}
+		};
+	}
+});
@@ -2,7 +2,7 @@ import { createRule } from '../utils/index.js';
 import type { AST } from 'svelte-eslint-parser';
 import type { AnyNode } from 'postcss';
 import type { Node as SelectorNode } from 'postcss-selector-parser';
-import { findClassesInAttribute } from '../utils/ast-utils.js';
+import { getClassNameList } from '../utils/class-names.js';
 import { getSourceCode } from '../utils/compat.js';
 import type { SourceCode } from '../types.js';
 
@@ -22,12 +22,24 @@ export default createRule('no-unused-class-name', {
 						items: {
 							type: 'string'
 						}
+					},
+					checkSelectors: {
+						type: 'boolean'
+					},
+					allowedSelectorClassNames: {
+						type: 'array',
+						items: {
+							type: 'string'
+						}
 					}
 				},
 				additionalProperties: false
 			}
 		],
-		messages: {},
+		messages: {
+			unusedClassName: 'Unused class "{{name}}".',
+			unusedSelector: 'Unused CSS selector ".{{name}}". No element in the template has this class.'
+		},
 		type: 'suggestion'
 	},
 	create(context) {
@@ -36,17 +48,27 @@ export default createRule('no-unused-class-name', {
 			return {};
 		}
 		const allowedClassNames = context.options[0]?.allowedClassNames ?? [];
+		const checkSelectors: boolean = context.options[0]?.checkSelectors ?? false;
+		const allowedSelectorClassNames: string[] = context.options[0]?.allowedSelectorClassNames ?? [];
 		const classesUsedInTemplate: Record<string, AST.SourceLocation> = {};
+		const classPrefixesUsedInTemplate: string[] = [];
+		let hasDynamicClasses = false;
 
 		return {
 			SvelteElement(node) {
 				if (node.kind !== 'html') {
+					if (node.kind === 'special' && node.name.name === 'svelte:element') {
+						// The element may have any class.
+						hasDynamicClasses = true;
+					}
 					return;
 				}
-				const classes = node.startTag.attributes.flatMap(findClassesInAttribute);
-				for (const className of classes) {
+				const classes = getClassNameList(context, node);
+				for (const className of classes.names) {
 					classesUsedInTemplate[className] = node.startTag.loc;
 				}
+				classPrefixesUsedInTemplate.push(...classes.prefixes);
+				hasDynamicClasses ||= classes.dynamic;
 			},
 			'Program:exit'() {
 				const styleContext = sourceCode.parserServices.getStyleContext!();
@@ -57,46 +79,95 @@ export default createRule('no-unused-class-name', {
 					styleContext.status === 'success'
 						? findClassesInPostCSSNode(styleContext.sourceAst, sourceCode.parserServices)
 						: [];
+				const classNamesUsedInStyle = classesUsedInStyle.map(({ node }) => node.value);
 				for (const className in classesUsedInTemplate) {
-					if (!allowedClassNames.includes(className) && !classesUsedInStyle.includes(className)) {
+					if (
+						!allowedClassNames.includes(className) &&
+						!classNamesUsedInStyle.includes(className)
+					) {
 						context.report({
 							loc: classesUsedInTemplate[className],
-							message: `Unused class "${className}".`
+							messageId: 'unusedClassName',
+							data: { name: className }
 						});
 					}
 				}
+				if (!checkSelectors || hasDynamicClasses) {
+					return;
+				}
+				for (const { node, global } of classesUsedInStyle) {
+					const className = node.value;
+					if (
+						global ||
+						allowedSelectorClassNames.includes(className) ||
+						className in classesUsedInTemplate ||
+						classPrefixesUsedInTemplate.some((prefix) => className.startsWith(prefix))
+					) {
+						continue;
+					}
+					context.report({
+						loc: sourceCode.parserServices.styleSelectorNodeLoc!(node) as AST.SourceLocation,
+						messageId: 'unusedSelector',
+						data: { name: className }
+					});
+				}
 			}
 		};
 	}
 });
 
+type ClassSelector = {
+	node: SelectorNode & { value: string };
+	/** `true` if the selector is in `:global`. */
+	global: boolean;
+};
+
 /**
- * Extract all class names used in a PostCSS node.
+ * Extract all class selectors used in a PostCSS node.
  */
 function findClassesInPostCSSNode(
 	node: AnyNode,
-	parserServices: SourceCode['parserServices']
-): string[] {
+	parserServices: SourceCode['parserServices'],
+	global = false
+): ClassSelector[] {
 	if (node.type === 'rule') {
-		let classes = node.nodes.flatMap((node) => findClassesInPostCSSNode(node, parserServices));
-		classes = classes.concat(findClassesInSelector(parserServices.getStyleSelectorAST!(node)));
+		const inGlobal = global || node.selector === ':global';
+		let classes = node.nodes.flatMap((node) =>
+			findClassesInPostCSSNode(node, parserServices, inGlobal)
+		);
+		classes = classes.concat(
+			findClassesInSelector(parserServices.getStyleSelectorAST!(node), inGlobal)
+		);
 		return classes;
 	}
 	if ((node.type === 'root' || node.type === 'atrule') && node.nodes !== undefined) {
-		return node.nodes.flatMap((node) => findClassesInPostCSSNode(node, parserServices));
+		return node.nodes.flatMap((node) => findClassesInPostCSSNode(node, parserServices, global));
 	}
 	return [];
 }
 
 /**
- * Extract all class names used in a PostCSS selector.
+ * Extract all class selectors used in a PostCSS selector.
  */
-function findClassesInSelector(node: SelectorNode): string[] {
+function findClassesInSelector(node: SelectorNode, global: boolean): ClassSelector[] {
 	if (node.type === 'class') {
-		return [node.value];
+		return [{ node, global }];
+	}
+	if (node.type === 'pseudo' || node.type === 'root') {
+		const inGlobal = global || (node.type === 'pseudo' && node.value === ':global');
+		return node.nodes.flatMap((node) => findClassesInSelector(node, inGlobal));
 	}
-	if (node.type === 'pseudo' || node.type === 'root' || node.type === 'selector') {
-		return node.nodes.flatMap(findClassesInSelector);
+	if (node.type === 'selector') {
+		let inGlobal = global;
+		const classes: ClassSelector[] = [];
+		for (const child of node.nodes) {
+			if (child.type === 'pseudo' && child.value === ':global' && child.nodes.length === 0) {
+				// `:global .foo` makes the rest of the selector global.
+				inGlobal = true;
+			}
+			classes.push(...findClassesInSelector(child, inGlobal));
+		}
+		return classes;
 	}
 	return [];
 }
@@ -0,0 +1,274 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import { createRule } from '../utils/index.js';
+import { getTypeScriptTools } from '../utils/ts-utils/index.js';
+import type { TS, TypeScript } from '../utils/ts-utils/index.js';
+import { findVariable } from '../utils/ast-utils.js';
+import { getFilename } from '../utils/compat.js';
+import type { RuleContext } from '../types.js';
+
+type PropUsage = {
+	/** Names of the props that are read. `null` if the props cannot be statically analyzed. */
+	used: Set<string> | null;
+	/** Destructured props that are never read. */
+	unusedProperties: { name: string; node: TSESTree.Node }[];
+};
+
+export default createRule('no-unused-props', {
+	meta: {
+		docs: {
+			description: 'disallow props that are declared but never used',
+			category: 'Best Practices',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					checkImportedTypes: {
+						type: 'boolean'
+					},
+					ignoreTypePatterns: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					},
+					ignorePropertyPatterns: {
+						type: 'array',
+						items: { type: 'string' },
+						uniqueItems: true
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			unusedProp: "'{{name}}' is an unused Props property.",
+			unusedInheritedProp: "'{{name}}' is an unused Props property (inherited from '{{parent}}')."
+		},
+		type: 'suggestion',
+		conditions: [
+			{
+				svelteVersions: ['5'],
+				runes: [true, 'undetermined']
+			}
+		]
+	},
+	create(context) {
+		const tools = getTypeScriptTools(context);
+		if (!tools) {
+			return {};
+		}
+		const checkImportedTypes: boolean = context.options[0]?.checkImportedTypes ?? false;
+		const ignoreTypePatterns: RegExp[] = (context.options[0]?.ignoreTypePatterns ?? []).map(
+			(pattern: string) => new RegExp(pattern, 'u')
+		);
+		const ignorePropertyPatterns: RegExp[] = (context.options[0]?.ignorePropertyPatterns ?? []).map(
+			(pattern: string) => new RegExp(pattern, 'u')
+		);
+
+		const { ts } = tools;
+		const checker = tools.service.program.getTypeChecker();
+		const fileName = getFilename(context);
+
+		/**
+		 * Checks whether the given property should be checked.
+		 */
+		function shouldCheckProperty(property: TS.Symbol): boolean {
+			if (ignorePropertyPatterns.some((pattern) => pattern.test(property.getName()))) {
+				return false;
+			}
+			const declarations = property.getDeclarations() ?? [];
+			if (declarations.length === 0) {
+				return false;
+			}
+			return declarations.some((declaration) => {
+				const sourceFile = declaration.getSourceFile();
+				if (!checkImportedTypes && sourceFile.fileName !== fileName) {
+					return false;
+				}
+				const parentName = getDeclaringTypeName(declaration, ts);
+				return !parentName || !ignoreTypePatterns.some((pattern) => pattern.test(parentName));
+			});
+		}
+
+		return {
+			'VariableDeclarator[init.type="CallExpression"][init.callee.type="Identifier"][init.callee.name="$props"]'(
+				node: TSESTree.VariableDeclarator
+			) {
+				const typeAnnotation = node.id.typeAnnotation?.typeAnnotation;
+				if (!typeAnnotation) {
+					return;
+				}
+				const tsNode = tools.service.esTreeNodeToTSNodeMap.get(typeAnnotation);
+				if (!tsNode || !ts.isTypeNode(tsNode)) {
+					return;
+				}
+				const propsType = checker.getTypeFromTypeNode(tsNode);
+				const usage = getPropUsage(context, node.id);
+
+				for (const { name, node: propertyNode } of usage.unusedProperties) {
+					if (ignorePropertyPatterns.some((pattern) => pattern.test(name))) {
+						continue;
+					}
+					context.report({
+						node: propertyNode,
+						messageId: 'unusedProp',
+						data: { name }
+					});
+				}
+
+				const used = usage.used;
+				if (!used) {
+					return;
+				}
+				const reported = new Set(usage.unusedProperties.map(({ name }) => name));
+				for (const property of checker.getPropertiesOfType(propsType)) {
+					const name = property.getName();
+					if (used.has(name) || reported.has(name) || !shouldCheckProperty(property)) {
+						continue;
+					}
+					const parent = getInheritedTypeName(property, tsNode, ts);
+					context.report({
+						node: node.id,
+						messageId: parent ? 'unusedInheritedProp' : 'unusedProp',
+						data: { name, parent: parent ?? '' }
+					});
+				}
+			}
+		};
+	}
+});
+
+/**
+ * Collects the props read through the given `$props()` binding pattern.
+ */
+function getPropUsage(context: RuleContext, pattern: TSESTree.BindingName): PropUsage {
+	if (pattern.type === 'Identifier') {
+		const variable = findVariable(context, pattern);
+		return {
+			used: variable ? getMemberReads(variable) : null,
+			unusedProperties: []
+		};
+	}
+	if (pattern.type !== 'ObjectPattern') {
+		return { used: null, unusedProperties: [] };
+	}
+
+	const used = new Set<string>();
+	const unusedProperties: PropUsage['unusedProperties'] = [];
+	let restUsed: Set<string> | null = new Set<string>();
+	for (const property of pattern.properties) {
+		if (property.type === 'RestElement') {
+			const variable =
+				property.argument.type === 'Identifier' ? findVariable(context, property.argument) : null;
+			restUsed = variable ? getMemberReads(variable) : null;
+			continue;
+		}
+		const name = getStaticKeyName(property);
+		if (name == null) {
+			// Computed keys can point at any prop.
+			return { used: null, unusedProperties: [] };
+		}
+		used.add(name);
+		const value =
+			property.value.type === 'AssignmentPattern' ? property.value.left : property.value;
+		if (value.type !== 'Identifier') {
+			// Nested destructuring reads the prop.
+			continue;
+		}
+		const variable = findVariable(context, value);
+		if (variable && !hasRead(variable)) {
+			unusedProperties.push({ name, node: property });
+		}
+	}
+	if (!restUsed) {
+		return { used: null, unusedProperties };
+	}
+	for (const name of restUsed) {
+		used.add(name);
+	}
+	return { used, unusedProperties };
+}
+
+/**
+ * Collects the property names read from the given variable through `foo.bar`.
+ * Returns `null` if the variable is used in any other way, e.g. `{...foo}`.
+ */
+function getMemberReads(variable: Variable): Set<string> | null {
+	const names = new Set<string>();
+	for (const reference of variable.references) {
+		if (reference.init) {
+			continue;
+		}
+		const id = reference.identifier as TSESTree.Identifier;
+		const parent = id.parent;
+		if (parent?.type !== 'MemberExpression' || parent.object !== id) {
+			return null;
+		}
+		if (!parent.computed && parent.property.type === 'Identifier') {
+			names.add(parent.property.name);
+		} else if (parent.property.type === 'Literal' && typeof parent.property.value === 'string') {
+			names.add(parent.property.value);
+		} else {
+			return null;
+		}
+	}
+	return names;
+}
+
+/**
+ * Checks whether the given variable is read anywhere.
+ */
+function hasRead(variable: Variable): boolean {
+	return variable.references.some((reference) => !reference.init && reference.isRead());
+}
+
+/**
+ * Gets the static key name of the given property.
+ */
+function getStaticKeyName(property: TSESTree.Property): string | null {
+	if (!property.computed && property.key.type === 'Identifier') {
+		return property.key.name;
+	}
+	if (property.key.type === 'Literal' && typeof property.key.value === 'string') {
+		return property.key.value;
+	}
+	return null;
+}
+
+/**
+ * Gets the name of the interface or type alias the given declaration belongs to.
+ */
+function getDeclaringTypeName(declaration: TS.Declaration, ts: TypeScript): string | null {
+	let node: TS.Node | undefined = declaration.parent;
+	while (node) {
+		if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+			return node.name.text;
+		}
+		if (ts.isSourceFile(node)) {
+			return null;
+		}
+		node = node.parent;
+	}
+	return null;
+}
+
+/**
+ * Gets the name of the type the given property is inherited from,
+ * or `null` if it is declared directly in the annotated type.
+ */
+function getInheritedTypeName(
+	property: TS.Symbol,
+	annotation: TS.TypeNode,
+	ts: TypeScript
+): string | null {
+	const annotationName = ts.isTypeReferenceNode(annotation) ? annotation.typeName.getText() : null;
+	for (const declaration of property.getDeclarations() ?? []) {
+		const parentName = getDeclaringTypeName(declaration, ts);
+		if (parentName && parentName !== annotationName) {
+			return parentName;
+		}
+	}
+	return null;
+}
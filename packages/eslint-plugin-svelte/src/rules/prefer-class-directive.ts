@@ -3,6 +3,7 @@ import type { TSESTree } from '@typescript-eslint/types';
 import { createRule } from '../utils/index.js';
 import { getStringIfConstant, isHTMLElementLike, needParentheses } from '../utils/ast-utils.js';
 import type { Rule } from 'eslint';
+import semver from 'semver';
 import { getSourceCode } from '../utils/compat.js';
 
 export default createRule('prefer-class-directive', {
@@ -18,7 +19,8 @@ export default createRule('prefer-class-directive', {
 			{
 				type: 'object',
 				properties: {
-					prefer: { enum: ['always', 'empty'] }
+					prefer: { enum: ['always', 'empty'] },
+					syntax: { enum: ['directive', 'object', 'auto'] }
 				},
 				additionalProperties: false
 			}
@@ -31,6 +33,20 @@ export default createRule('prefer-class-directive', {
 	create(context) {
 		const sourceCode = getSourceCode(context);
 		const preferEmpty = context.options[0]?.prefer !== 'always';
+		const useObjectSyntax = getSyntax() === 'object';
+
+		/**
+		 * Gets the syntax used by the fix.
+		 * With `auto`, the object and array syntax is used if Svelte supports it (v5.16+).
+		 */
+		function getSyntax(): 'directive' | 'object' {
+			const syntax: 'directive' | 'object' | 'auto' = context.options[0]?.syntax ?? 'directive';
+			if (syntax !== 'auto') {
+				return syntax;
+			}
+			const version = sourceCode.parserServices.svelteParseContext?.compilerVersion;
+			return version && semver.satisfies(version, '>=5.16.0-0') ? 'object' : 'directive';
+		}
 
 		type Expr = {
 			not?: true;
@@ -38,6 +54,16 @@ export default createRule('prefer-class-directive', {
 			chains?: Expr;
 		};
 
+		/** A part of the class value. The string of a literal, or an expression. */
+		type ValuePart = string | TSESTree.Expression;
+
+		type Target = {
+			/** The index of the conditional expression in the parts. */
+			index: number;
+			map: Map<Expr, string>;
+			node: AST.SvelteMustacheTagText | TSESTree.Expression;
+		};
+
 		/**
 		 * Returns a map of expressions and strings from ConditionalExpression.
 		 * Returns null if it has an unknown string.
@@ -156,19 +182,19 @@ export default createRule('prefer-class-directive', {
 		/**
 		 * Returns all possible strings.
 		 */
-		function getStrings(node: AST.SvelteAttribute['value'][number]) {
-			if (node.type === 'SvelteLiteral') {
-				return [node.value];
+		function getStrings(part: ValuePart) {
+			if (typeof part === 'string') {
+				return [part];
 			}
-			if (node.expression.type === 'ConditionalExpression') {
-				const values = parseConditionalExpression(node.expression);
+			if (part.type === 'ConditionalExpression') {
+				const values = parseConditionalExpression(part);
 				if (values == null) {
 					// unknown
 					return null;
 				}
 				return [...values.values()];
 			}
-			const str = getStringIfConstant(node.expression);
+			const str = getStringIfConstant(part);
 			if (str == null) {
 				// unknown
 				return null;
@@ -179,10 +205,9 @@ export default createRule('prefer-class-directive', {
 		/**
 		 * Checks if the last character is a non word.
 		 */
-		function endsWithNonWord(node: AST.SvelteAttribute, index: number): boolean {
+		function endsWithNonWord(parts: ValuePart[], index: number): boolean {
 			for (let i = index; i >= 0; i--) {
-				const valueNode = node.value[i];
-				const strings = getStrings(valueNode);
+				const strings = getStrings(parts[i]);
 				if (strings == null) {
 					// unknown
 					return false;
@@ -200,10 +225,9 @@ export default createRule('prefer-class-directive', {
 		/**
 		 * Checks if the first character is a non word.
 		 */
-		function startsWithNonWord(node: AST.SvelteAttribute, index: number): boolean {
-			for (let i = index; i < node.value.length; i++) {
-				const valueNode = node.value[i];
-				const strings = getStrings(valueNode);
+		function startsWithNonWord(parts: ValuePart[], index: number): boolean {
+			for (let i = index; i < parts.length; i++) {
+				const strings = getStrings(parts[i]);
 				if (strings == null) {
 					// unknown
 					return false;
@@ -293,27 +317,131 @@ export default createRule('prefer-class-directive', {
 			});
 		}
 
-		/** verify */
-		function verify(node: AST.SvelteMustacheTagText, index: number, attr: AST.SvelteAttribute) {
-			if (node.expression.type !== 'ConditionalExpression') {
-				return;
+		/**
+		 * Expr to the operand of `||`.
+		 */
+		function exprToOperandOfOr(expr: Expr): string {
+			const text = exprToString(expr);
+			const node = expr.node;
+			if (
+				!expr.not &&
+				(node.type === 'ArrowFunctionExpression' ||
+					node.type === 'AssignmentExpression' ||
+					node.type === 'ConditionalExpression' ||
+					node.type === 'SequenceExpression' ||
+					(node.type === 'LogicalExpression' && node.operator === '??'))
+			) {
+				return `(${text})`;
+			}
+			return text;
+		}
+
+		/**
+		 * Report with the fix that converts the given conditional classes into an object.
+		 * The other parts of the class value are kept as the elements of an array.
+		 */
+		function reportWithObjectSyntax(
+			attr: AST.SvelteAttribute,
+			parts: ValuePart[],
+			targets: Target[]
+		) {
+			// The conditions of the same class are merged, e.g. `{ active: a || b }`.
+			const conditions = new Map<string, Expr[]>();
+			for (const { map } of targets) {
+				for (const [expr, className] of map) {
+					const key = className.trim();
+					if (!key) {
+						continue;
+					}
+					const exprs = conditions.get(key);
+					if (exprs) {
+						exprs.push(expr);
+					} else {
+						conditions.set(key, [expr]);
+					}
+				}
+			}
+			const properties: string[] = [];
+			for (const [key, exprs] of conditions) {
+				const value =
+					exprs.length === 1
+						? exprToString(exprs[0])
+						: exprs.map((expr) => exprToOperandOfOr(expr)).join(' || ');
+				const keyText = /^[$A-Z_a-z][\w$]*$/u.test(key) ? key : `'${key}'`;
+				properties.push(keyText === value ? key : `${keyText}: ${value}`);
+			}
+			const object = `{ ${properties.join(', ')} }`;
+			// The conditional classes are separated from the other classes by the spaces.
+			const targetIndexes = new Set(targets.map((target) => target.index));
+			const rest = parts
+				.filter((_part, index) => !targetIndexes.has(index))
+				.reduce<ValuePart[]>((parts, value) => {
+					const last = parts[parts.length - 1];
+					if (typeof value === 'string' && typeof last === 'string') {
+						parts[parts.length - 1] = `${last} ${value}`;
+					} else {
+						parts.push(value);
+					}
+					return parts;
+				}, []);
+			let restText: string | null = null;
+			if (rest.length === 1 && typeof rest[0] === 'string') {
+				const classNames = rest[0].trim().split(/\s+/u).filter(Boolean);
+				restText = classNames.length
+					? `'${classNames.join(' ').replace(/['\\]/gu, (c) => `\\${c}`)}'`
+					: null;
+			} else if (
+				rest.length &&
+				rest.every((value) => typeof value !== 'string' || !value.trim()) &&
+				rest.filter((value) => typeof value !== 'string').length === 1
+			) {
+				const expression = rest.find((value) => typeof value !== 'string')!;
+				restText = sourceCode.getText(expression);
+			} else if (rest.length) {
+				restText = `\`${rest
+					.map((value) =>
+						typeof value === 'string'
+							? value.replace(/[\\`]|\$\{/gu, (c) => `\\${c}`)
+							: `\${${sourceCode.getText(value)}}`
+					)
+					.join('')
+					.trim()}\``;
 			}
-			const map = parseConditionalExpression(node.expression);
+			const text = restText ? `class={[${restText}, ${object}]}` : `class={${object}}`;
+			for (const { node } of targets) {
+				context.report({
+					node,
+					messageId: 'unexpected',
+					fix: (fixer) => fixer.replaceText(attr, text)
+				});
+			}
+		}
+
+		/**
+		 * Parses the conditional expression at the given index of the parts and checks whether it can be transformed.
+		 * Returns the map of expressions and strings if it can be transformed.
+		 */
+		function verify(parts: ValuePart[], index: number): Map<Expr, string> | null {
+			const part = parts[index];
+			if (typeof part === 'string' || part.type !== 'ConditionalExpression') {
+				return null;
+			}
+			const map = parseConditionalExpression(part);
 			if (map == null) {
 				// has unknown
-				return;
+				return null;
 			}
 			if (map.size > 2) {
 				// It's too complicated.
-				return;
+				return null;
 			}
 			if (preferEmpty && [...map.values()].every((x) => x.trim())) {
 				// We prefer directives when there's an empty string, but they're all not empty
-				return;
+				return null;
 			}
 
-			const prevIsWord = !startsWithNonWord(attr, index + 1);
-			const nextIsWord = !endsWithNonWord(attr, index - 1);
+			const prevIsWord = !startsWithNonWord(parts, index + 1);
+			const nextIsWord = !endsWithNonWord(parts, index - 1);
 			let canTransform = true;
 			for (const className of map.values()) {
 				if (className) {
@@ -336,10 +464,44 @@ export default createRule('prefer-class-directive', {
 					break;
 				}
 			}
-			if (!canTransform) {
+			return canTransform ? map : null;
+		}
+
+		/**
+		 * Verify the attribute whose value is a template literal, e.g. ``class={`btn ${active ? 'active' : ''}`}``.
+		 * Only the object syntax can express it.
+		 */
+		function verifyTemplateLiteral(attr: AST.SvelteAttribute) {
+			const value = attr.value[0];
+			if (
+				attr.value.length !== 1 ||
+				value.type !== 'SvelteMustacheTag' ||
+				value.expression.type !== 'TemplateLiteral'
+			) {
 				return;
 			}
-			report(node, map, attr);
+			const { quasis, expressions } = value.expression;
+			const parts: ValuePart[] = [];
+			for (const [index, quasi] of quasis.entries()) {
+				if (quasi.value.cooked == null) {
+					return;
+				}
+				parts.push(quasi.value.cooked);
+				if (index < expressions.length) {
+					parts.push(expressions[index]);
+				}
+			}
+			const targets: Target[] = [];
+			for (const [index, expression] of expressions.entries()) {
+				// The expressions are between the quasis.
+				const map = verify(parts, index * 2 + 1);
+				if (map) {
+					targets.push({ index: index * 2 + 1, map, node: expression });
+				}
+			}
+			if (targets.length) {
+				reportWithObjectSyntax(attr, parts, targets);
+			}
 		}
 
 		return {
@@ -352,12 +514,32 @@ export default createRule('prefer-class-directive', {
 					return;
 				}
 
+				const parts = node.value.map((value) =>
+					value.type === 'SvelteLiteral' ? value.value : value.expression
+				);
+				const targets = new Map<AST.SvelteMustacheTagText, Target>();
 				for (let index = 0; index < node.value.length; index++) {
 					const valueElement = node.value[index];
 					if (valueElement.type !== 'SvelteMustacheTag') {
 						continue;
 					}
-					verify(valueElement, index, node);
+					const map = verify(parts, index);
+					if (map) {
+						targets.set(valueElement, { index, map, node: valueElement });
+					}
+				}
+				if (!targets.size) {
+					if (useObjectSyntax) {
+						verifyTemplateLiteral(node);
+					}
+					return;
+				}
+				if (useObjectSyntax) {
+					reportWithObjectSyntax(node, parts, [...targets.values()]);
+					return;
+				}
+				for (const [valueElement, { map }] of targets) {
+					report(valueElement, map, node);
 				}
 			}
 		};
@@ -0,0 +1,229 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import semver from 'semver';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { findVariable, getLinesRange } from '../utils/ast-utils.js';
+import type { RuleFixer } from '../types.js';
+import { getToplevelScope, hasWrite } from './reference-helpers/reactive-statement.js';
+
+/**
+ * Checks whether the given callee is `$effect` or `$effect.pre`.
+ */
+function isEffectCallee(callee: TSESTree.Expression): boolean {
+	if (callee.type === 'Identifier') {
+		return callee.name === '$effect';
+	}
+	return (
+		callee.type === 'MemberExpression' &&
+		callee.object.type === 'Identifier' &&
+		callee.object.name === '$effect' &&
+		callee.property.type === 'Identifier' &&
+		callee.property.name === 'pre'
+	);
+}
+
+/**
+ * Gets the assignment if the given `$effect()` call only assigns a value to a variable.
+ * e.g. `$effect(() => { foo = bar * 2; })`
+ */
+function getSoleAssignment(node: TSESTree.CallExpression): TSESTree.AssignmentExpression | null {
+	const callback = node.arguments[0];
+	if (
+		node.arguments.length !== 1 ||
+		(callback.type !== 'ArrowFunctionExpression' && callback.type !== 'FunctionExpression') ||
+		callback.async ||
+		callback.params.length > 0
+	) {
+		return null;
+	}
+	let expression: TSESTree.Expression = callback.body as TSESTree.Expression;
+	if (callback.body.type === 'BlockStatement') {
+		const statement = callback.body.body[0];
+		if (callback.body.body.length !== 1 || statement.type !== 'ExpressionStatement') {
+			return null;
+		}
+		expression = statement.expression;
+	}
+	if (
+		expression.type !== 'AssignmentExpression' ||
+		expression.operator !== '=' ||
+		expression.left.type !== 'Identifier'
+	) {
+		return null;
+	}
+	return expression;
+}
+
+/**
+ * Gets the `let foo = $state()` declarator of the given variable.
+ */
+function getStateDeclarator(variable: Variable): TSESTree.VariableDeclarator | null {
+	if (variable.defs.length !== 1) {
+		return null;
+	}
+	const def = variable.defs[0];
+	if (
+		def.type !== 'Variable' ||
+		def.parent.kind !== 'let' ||
+		def.node.id.type !== 'Identifier' ||
+		def.node.init?.type !== 'CallExpression' ||
+		def.node.init.callee.type !== 'Identifier' ||
+		def.node.init.callee.name !== '$state' ||
+		def.node.init.arguments.length > 1
+	) {
+		return null;
+	}
+	return def.node;
+}
+
+export default createRule('prefer-derived-over-effect', {
+	meta: {
+		docs: {
+			description: 'require `$derived` instead of `$effect` that only assigns a `$state`',
+			category: 'Best Practices',
+			recommended: false
+		},
+		fixable: 'code',
+		hasSuggestions: true,
+		schema: [],
+		messages: {
+			preferDerived: 'Use `$derived` instead of `$effect` to keep `{{name}}` in sync.',
+			preferWritableDerived:
+				'Use a writable `$derived` instead of `$effect` to keep `{{name}}` in sync. `{{name}}` is also updated elsewhere.',
+			useWritableDerived: 'Replace with a writable `$derived`.'
+		},
+		type: 'suggestion',
+		conditions: [
+			{
+				runes: [true]
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		// Writable `$derived` values are supported since Svelte v5.25.
+		const compilerVersion = sourceCode.parserServices.svelteParseContext?.compilerVersion;
+		const supportsWritableDerived = Boolean(
+			compilerVersion && semver.satisfies(compilerVersion, '>=5.25.0-0')
+		);
+
+		/**
+		 * Checks whether the given expression reads the given variable.
+		 * e.g. `$effect(() => { count = count + 1; })`
+		 */
+		function isSelfReferencing(expression: TSESTree.Expression, variable: Variable): boolean {
+			return variable.references.some(
+				(reference) =>
+					expression.range[0] <= reference.identifier.range[0] &&
+					reference.identifier.range[1] <= expression.range[1]
+			);
+		}
+
+		/**
+		 * Checks whether the right-hand side of the assignment can be moved to the declaration.
+		 * The `$effect` must be a top-level statement, and the expression must only read
+		 * the top-level variables, e.g. not the variables of an enclosing function.
+		 */
+		function canMoveToDeclaration(
+			statement: TSESTree.ExpressionStatement,
+			variable: Variable,
+			expression: TSESTree.Expression
+		): boolean {
+			const toplevelScope = getToplevelScope(context);
+			if (
+				(statement.parent.type !== 'Program' &&
+					(statement.parent.type as string) !== 'SvelteScriptElement') ||
+				variable.scope !== toplevelScope
+			) {
+				return false;
+			}
+
+			/** Checks whether the given node is in the expression. */
+			function isInExpression(node: TSESTree.Node) {
+				return expression.range[0] <= node.range[0] && node.range[1] <= expression.range[1];
+			}
+
+			return sourceCode.scopeManager.scopes.every((scope) =>
+				scope.references.every(
+					(reference) =>
+						!isInExpression(reference.identifier) ||
+						!reference.resolved ||
+						reference.resolved.scope === toplevelScope ||
+						reference.resolved.scope.type === 'global' ||
+						// e.g. the parameters of `items.map((item) => item.id)`
+						reference.resolved.defs.every((def) => isInExpression(def.name))
+				)
+			);
+		}
+
+		/**
+		 * Creates the fixer that replaces the given `$effect` statement with `$derived`.
+		 */
+		function buildFix(
+			statement: TSESTree.ExpressionStatement,
+			declarator: TSESTree.VariableDeclarator,
+			assignment: TSESTree.AssignmentExpression
+		) {
+			const init = declarator.init as TSESTree.CallExpression;
+			const typeArguments = init.typeArguments ? sourceCode.getText(init.typeArguments) : '';
+			const value =
+				assignment.right.type === 'SequenceExpression'
+					? `(${sourceCode.getText(assignment.right)})`
+					: sourceCode.getText(assignment.right);
+			const [start, end] = getLinesRange(sourceCode, statement);
+			// Also remove the blank line before the statement.
+			const blankLine = /\n[\t ]*\n$/u.exec(sourceCode.text.slice(0, start));
+			return (fixer: RuleFixer) => [
+				fixer.replaceText(init, `$derived${typeArguments}(${value})`),
+				fixer.removeRange([blankLine ? start - blankLine[0].length + 1 : start, end])
+			];
+		}
+
+		return {
+			ExpressionStatement(node: TSESTree.ExpressionStatement) {
+				if (node.expression.type !== 'CallExpression' || !isEffectCallee(node.expression.callee)) {
+					return;
+				}
+				const assignment = getSoleAssignment(node.expression);
+				if (!assignment) {
+					return;
+				}
+				const variable = findVariable(context, assignment.left as TSESTree.Identifier);
+				const declarator = variable && getStateDeclarator(variable);
+				if (!variable || !declarator || isSelfReferencing(assignment.right, variable)) {
+					return;
+				}
+				const fix = canMoveToDeclaration(node, variable, assignment.right)
+					? buildFix(node, declarator, assignment)
+					: null;
+
+				if (hasWrite(context, variable, node.range)) {
+					if (!supportsWritableDerived) {
+						return;
+					}
+					context.report({
+						node: node.expression,
+						messageId: 'preferWritableDerived',
+						data: { name: variable.name },
+						suggest: fix
+							? [
+									{
+										messageId: 'useWritableDerived',
+										fix
+									}
+								]
+							: []
+					});
+					return;
+				}
+				context.report({
+					node: node.expression,
+					messageId: 'preferDerived',
+					data: { name: variable.name },
+					fix
+				});
+			}
+		};
+	}
+});
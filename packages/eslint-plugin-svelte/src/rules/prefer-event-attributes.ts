@@ -0,0 +1,279 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { EVENT_NAMES } from '../utils/events.js';
+import type { RuleFixer } from '../types.js';
+
+type Conversion =
+	| { attribute: string; text: string; once: boolean }
+	| { attribute?: string; messageId: string; modifier?: string };
+
+/** The names to import `once()` of `svelte/legacy` as, in order of preference. */
+const ONCE_NAMES = ['once', 'legacyOnce'];
+
+/** The events that Svelte 5 listens to as passive by default. */
+const PASSIVE_EVENTS = new Set(['touchstart', 'touchmove']);
+
+/**
+ * The modifiers that can be replaced with statements in the wrapper function.
+ * They are listed in the order in which Svelte applies them.
+ */
+const WRAPPER_MODIFIERS = new Map<string, (event: string) => string>([
+	['trusted', (event) => `if (!${event}.isTrusted) return;`],
+	['self', (event) => `if (${event}.target !== ${event}.currentTarget) return;`],
+	['stopImmediatePropagation', (event) => `${event}.stopImmediatePropagation();`],
+	['stopPropagation', (event) => `${event}.stopPropagation();`],
+	['preventDefault', (event) => `${event}.preventDefault();`]
+]);
+
+export default createRule('prefer-event-attributes', {
+	meta: {
+		docs: {
+			description: 'require event attributes instead of `on:` directives',
+			category: 'Best Practices',
+			recommended: false
+		},
+		fixable: 'code',
+		schema: [],
+		messages: {
+			useEventAttribute:
+				"Use the '{{attribute}}' attribute instead of the 'on:{{name}}' directive.",
+			forwarded:
+				"The event forwarding 'on:{{name}}' is deprecated. Use a callback prop instead, and pass it to the '{{attribute}}' attribute.",
+			componentEvent:
+				"The component event 'on:{{name}}' is deprecated. Use a callback prop of the component instead.",
+			invalidName:
+				"The 'on:{{name}}' directive is deprecated, but the event name '{{name}}' cannot be written as an attribute name.",
+			unsupportedModifier:
+				"The 'on:{{name}}' directive is deprecated, but the '{{modifier}}' modifier cannot be converted to the '{{attribute}}' attribute.",
+			duplicateHandler:
+				"The 'on:{{name}}' directive is deprecated. Multiple handlers of the same event must be combined into the '{{attribute}}' attribute."
+		},
+		type: 'suggestion',
+		conditions: [
+			{
+				svelteVersions: ['5']
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const directives: AST.SvelteEventHandlerDirective[] = [];
+		let instanceScript: AST.SvelteScriptElement | null = null;
+		let svelteOptions: AST.SvelteElement | null = null;
+		/** The local name of `once()` if it is already imported from `svelte/legacy`. */
+		let importedOnce: string | null = null;
+		let onceName: string | null | undefined;
+
+		/**
+		 * Gets the name to call `once()` of `svelte/legacy` with.
+		 * Returns `null` if all the candidate names are already used.
+		 */
+		function getOnceName(): string | null {
+			if (onceName === undefined) {
+				const scopes = sourceCode.scopeManager.scopes;
+				const through = sourceCode.scopeManager.globalScope?.through ?? [];
+				onceName =
+					importedOnce ??
+					ONCE_NAMES.find(
+						(name) =>
+							!scopes.some((scope) => scope.set.has(name)) &&
+							!through.some((reference) => reference.identifier.name === name)
+					) ??
+					null;
+			}
+			return onceName;
+		}
+
+		/**
+		 * Creates the fix that imports `once()` of `svelte/legacy` as the given name.
+		 */
+		function importOnce(fixer: RuleFixer, name: string) {
+			const declaration = `import { ${name === 'once' ? name : `once as ${name}`} } from 'svelte/legacy';`;
+			if (!instanceScript) {
+				const script = `<script>\n\t${declaration}\n</script>`;
+				return svelteOptions
+					? fixer.insertTextAfter(svelteOptions, `\n\n${script}`)
+					: fixer.insertTextBeforeRange([0, 0], `${script}\n\n`);
+			}
+			const body = instanceScript.body as TSESTree.Statement[];
+			const imports = body.filter((statement) => statement.type === 'ImportDeclaration');
+			const anchor = imports.length ? imports[imports.length - 1] : instanceScript.startTag;
+			const indent = body.length
+				? /^\s*/u.exec(sourceCode.lines[body[0].loc.start.line - 1])![0]
+				: '\t';
+			return fixer.insertTextAfter(anchor, `\n${indent}${declaration}`);
+		}
+
+		/**
+		 * Checks whether the given element is a component.
+		 */
+		function isComponent(
+			element: AST.SvelteElement | AST.SvelteScriptElement | AST.SvelteStyleElement
+		) {
+			return (
+				element.type === 'SvelteElement' &&
+				(element.kind === 'component' ||
+					(element.kind === 'special' &&
+						(element.name.name === 'svelte:component' || element.name.name === 'svelte:self')))
+			);
+		}
+
+		/**
+		 * Gets the name of the event attribute for the given directive.
+		 * Returns `null` if the event name cannot be written as an attribute name.
+		 */
+		function getAttributeName(node: AST.SvelteEventHandlerDirective): string | null {
+			const name = node.key.name.name;
+			// Attribute names are case-insensitive, so custom events with uppercase letters cannot be listened to.
+			if (!EVENT_NAMES.includes(`on${name}`) && !/^[a-z][\d\-_a-z]*$/u.test(name)) {
+				return null;
+			}
+			return `on${name}${node.key.modifiers.includes('capture') ? 'capture' : ''}`;
+		}
+
+		/**
+		 * Converts the given directive to an event attribute.
+		 */
+		function convert(node: AST.SvelteEventHandlerDirective): Conversion {
+			if (isComponent(node.parent.parent)) {
+				return { messageId: 'componentEvent' };
+			}
+			const name = node.key.name.name;
+			const attribute = getAttributeName(node);
+			if (!attribute) {
+				return { messageId: 'invalidName' };
+			}
+			if (!node.expression) {
+				return { messageId: 'forwarded', attribute };
+			}
+			const hasOtherHandler = node.parent.attributes.some(
+				(attr) =>
+					attr !== node &&
+					((attr.type === 'SvelteDirective' &&
+						attr.kind === 'EventHandler' &&
+						attr.key.name.name === name) ||
+						((attr.type === 'SvelteAttribute' || attr.type === 'SvelteShorthandAttribute') &&
+							attr.key.name === attribute))
+			);
+			if (hasOtherHandler) {
+				return { messageId: 'duplicateHandler', attribute };
+			}
+			for (const modifier of node.key.modifiers) {
+				if (
+					modifier !== 'capture' &&
+					!WRAPPER_MODIFIERS.has(modifier) &&
+					!(modifier === 'passive' && PASSIVE_EVENTS.has(name)) &&
+					!(modifier === 'once' && getOnceName())
+				) {
+					return { messageId: 'unsupportedModifier', attribute, modifier };
+				}
+			}
+			const once = node.key.modifiers.includes('once');
+			const value = buildHandler(node, node.expression);
+			return {
+				attribute,
+				text: `${attribute}={${once ? `${getOnceName()}(${value})` : value}}`,
+				once: once && !importedOnce
+			};
+		}
+
+		/**
+		 * Builds the handler that applies the modifiers replaced with statements.
+		 */
+		function buildHandler(
+			node: AST.SvelteEventHandlerDirective,
+			expression: TSESTree.Expression
+		): string {
+			const handler = sourceCode.getText(expression);
+			const statements = [...WRAPPER_MODIFIERS]
+				.filter(([modifier]) => node.key.modifiers.includes(modifier))
+				.map(([, toStatement]) => toStatement);
+			if (!statements.length) {
+				return expression.type === 'SequenceExpression' ? `(${handler})` : handler;
+			}
+			const event = ['event', 'e', 'evt', '_event'].find(
+				(n) => !new RegExp(`\\b${n}\\b`, 'u').test(handler)
+			)!;
+			const callee =
+				expression.type === 'Identifier' || expression.type === 'MemberExpression'
+					? handler
+					: `(${handler})`;
+			const body = [...statements.map((toStatement) => toStatement(event)), `${callee}(${event});`];
+			return `(${event}) => { ${body.join(' ')} }`;
+		}
+
+		return {
+			SvelteScriptElement(node: AST.SvelteScriptElement) {
+				const isModule = node.startTag.attributes.some(
+					(attr) =>
+						attr.type === 'SvelteAttribute' &&
+						(attr.key.name === 'module' ||
+							(attr.key.name === 'context' &&
+								attr.value.length === 1 &&
+								attr.value[0].type === 'SvelteLiteral' &&
+								attr.value[0].value === 'module'))
+				);
+				if (!isModule) {
+					instanceScript = node;
+				}
+			},
+			'SvelteElement[kind="special"]'(node: AST.SvelteSpecialElement) {
+				if (node.name.name === 'svelte:options') {
+					svelteOptions = node;
+				}
+			},
+			'ImportDeclaration[source.value="svelte/legacy"] > ImportSpecifier'(
+				node: TSESTree.ImportSpecifier
+			) {
+				if (node.imported.type === 'Identifier' && node.imported.name === 'once') {
+					importedOnce = node.local.name;
+				}
+			},
+			SvelteDirective(node) {
+				if (node.kind === 'EventHandler') {
+					directives.push(node);
+				}
+			},
+			'Program:exit'() {
+				const conversions = directives.map((node) => ({ node, conversion: convert(node) }));
+				// Svelte does not allow mixing the `on:` directives and the event attributes of elements.
+				const fixable = conversions.every(
+					({ conversion }) => 'text' in conversion || conversion.messageId === 'componentEvent'
+				);
+				// `once()` is imported by the fix of the first directive that uses it,
+				// since all the directives are fixed together.
+				let onceImported = false;
+				for (const { node, conversion } of conversions) {
+					const name = node.key.name.name;
+					if ('text' in conversion) {
+						const needsImport: boolean = conversion.once && !onceImported;
+						onceImported ||= needsImport;
+						context.report({
+							node,
+							messageId: 'useEventAttribute',
+							data: { name, attribute: conversion.attribute },
+							fix: fixable
+								? (fixer) => [
+										fixer.replaceText(node, conversion.text),
+										...(needsImport ? [importOnce(fixer, getOnceName()!)] : [])
+									]
+								: null
+						});
+					} else {
+						context.report({
+							node,
+							messageId: conversion.messageId,
+							data: {
+								name,
+								attribute: conversion.attribute ?? '',
+								modifier: conversion.modifier ?? ''
+							}
+						});
+					}
+				}
+			}
+		};
+	}
+});
@@ -0,0 +1,500 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { getSvelteContext } from '../utils/svelte-context.js';
+import { resolveComponentPath } from '../utils/component-resolver.js';
+import { getComponentSnippetParams } from '../utils/component-graph.js';
+import type { RuleFixer } from '../types.js';
+import { getToplevelScope } from './reference-helpers/reactive-statement.js';
+
+type Fix = ReturnType<RuleFixer['replaceText']>;
+
+type SlotElement = AST.SvelteHTMLElement & { name: AST.SvelteName };
+
+type ComponentElement = AST.SvelteComponentElement | AST.SvelteSpecialElement;
+
+type SlotRender = {
+	node: SlotElement;
+	snippet: string;
+	args: string[];
+};
+
+const IDENTIFIER_RE = /^[$A-Z_a-z][\w$]*$/u;
+
+/**
+ * Gets the name of the snippet that replaces the given slot.
+ */
+function getSnippetName(slotName: string): string {
+	return slotName === 'default' ? 'children' : slotName;
+}
+
+/**
+ * Gets the static value of the given attribute.
+ * Returns `null` if the value is dynamic.
+ */
+function getStaticValue(attr: AST.SvelteAttribute): string | null {
+	let value = '';
+	for (const part of attr.value) {
+		if (part.type !== 'SvelteLiteral') {
+			return null;
+		}
+		value += part.value;
+	}
+	return value;
+}
+
+/**
+ * Finds the static attribute with the given name.
+ */
+function findStaticAttribute(
+	startTag: AST.SvelteStartTag,
+	name: string
+): { node: AST.SvelteAttribute; value: string | null } | null {
+	for (const attr of startTag.attributes) {
+		if (attr.type === 'SvelteAttribute' && attr.key.name === name) {
+			return { node: attr, value: getStaticValue(attr) };
+		}
+	}
+	return null;
+}
+
+/**
+ * Gets the `let:` directives of the given start tag.
+ */
+function getLetDirectives(startTag: AST.SvelteStartTag): AST.SvelteLetDirective[] {
+	return startTag.attributes.filter(
+		(attr): attr is AST.SvelteLetDirective => attr.type === 'SvelteDirective' && attr.kind === 'Let'
+	);
+}
+
+/**
+ * Checks whether the given node is content other than whitespace.
+ */
+function isMeaningfulChild(node: AST.SvelteElement['children'][number]): boolean {
+	return node.type !== 'SvelteText' || node.value.trim() !== '';
+}
+
+export default createRule('prefer-snippets', {
+	meta: {
+		docs: {
+			description: 'require snippets instead of slots',
+			category: 'Best Practices',
+			recommended: false
+		},
+		fixable: 'code',
+		schema: [],
+		messages: {
+			useRender: 'Use `{@render {{snippet}}()}` instead of the `<slot>` element.',
+			useSnippet: 'Use the `{#snippet {{snippet}}()}` block instead of the `slot` attribute.',
+			useSnippetParameter:
+				'Use the parameters of the `{#snippet {{snippet}}()}` block instead of `let:`.'
+		},
+		type: 'suggestion',
+		conditions: [
+			{
+				svelteVersions: ['5']
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const runes = getSvelteContext(context)?.runes === true;
+		const slots: SlotElement[] = [];
+		let instanceScript: AST.SvelteScriptElement | null = null;
+		let svelteOptions: AST.SvelteElement | null = null;
+		let propsDeclarator: TSESTree.VariableDeclarator | null = null;
+
+		/**
+		 * Gets the range of the given attribute including the whitespace before it.
+		 */
+		function getAttributeRemovalRange(attr: AST.SvelteStartTag['attributes'][number]): AST.Range {
+			let start = attr.range[0];
+			while (/\s/u.test(sourceCode.text[start - 1])) {
+				start--;
+			}
+			return [start, attr.range[1]];
+		}
+
+		/**
+		 * Gets the text of the given range without the given ranges.
+		 */
+		function getTextWithout(range: AST.Range, removals: AST.Range[]): string {
+			let text = '';
+			let start = range[0];
+			for (const removal of [...removals].sort((a, b) => a[0] - b[0])) {
+				text += sourceCode.text.slice(start, removal[0]);
+				start = removal[1];
+			}
+			return text + sourceCode.text.slice(start, range[1]);
+		}
+
+		/**
+		 * Gets the render of the given slot.
+		 * Returns `null` if the slot cannot be converted.
+		 */
+		function getSlotRender(node: SlotElement): SlotRender | null {
+			const nameAttr = findStaticAttribute(node.startTag, 'name');
+			const slotName = nameAttr ? nameAttr.value : 'default';
+			if (slotName == null) {
+				return null;
+			}
+			const args: string[] = [];
+			for (const attr of node.startTag.attributes) {
+				if (attr === nameAttr?.node) {
+					continue;
+				}
+				if (attr.type === 'SvelteShorthandAttribute') {
+					args.push(sourceCode.getText(attr.value));
+				} else if (attr.type === 'SvelteAttribute') {
+					const value = getStaticValue(attr);
+					if (value != null) {
+						args.push(attr.value.length ? `'${value.replace(/['\\]/gu, '\\$&')}'` : 'true');
+					} else if (attr.value.length === 1 && attr.value[0].type === 'SvelteMustacheTag') {
+						args.push(sourceCode.getText(attr.value[0].expression));
+					} else {
+						return null;
+					}
+				} else {
+					return null;
+				}
+			}
+			return { node, snippet: getSnippetName(slotName), args };
+		}
+
+		/**
+		 * Gets the text that renders the given slot.
+		 */
+		function buildRenderText({ node, snippet, args }: SlotRender): string {
+			const children = node.children.filter(isMeaningfulChild);
+			if (!children.length) {
+				return `{@render ${snippet}?.(${args.join(', ')})}`;
+			}
+			const fallback = sourceCode.text.slice(
+				node.children[0].range[0],
+				node.children[node.children.length - 1].range[1]
+			);
+			return `{#if ${snippet}}{@render ${snippet}(${args.join(', ')})}{:else}${fallback}{/if}`;
+		}
+
+		/**
+		 * Creates the fixes that declare the given snippet props with `$props()`.
+		 * Returns `null` if the props cannot be declared.
+		 */
+		function declareSnippetProps(fixer: RuleFixer, names: string[]): Fix[] | null {
+			const toplevelScope = getToplevelScope(context);
+			if (!propsDeclarator) {
+				if (names.some((name) => toplevelScope?.set.has(name))) {
+					return null;
+				}
+				const declaration = `let { ${names.join(', ')} } = $props();`;
+				if (!instanceScript) {
+					const script = `<script>\n\t${declaration}\n</script>`;
+					return [
+						svelteOptions
+							? fixer.insertTextAfter(svelteOptions, `\n\n${script}`)
+							: fixer.insertTextBeforeRange([0, 0], `${script}\n\n`)
+					];
+				}
+				const body = instanceScript.body as TSESTree.Statement[];
+				const imports = body.filter((statement) => statement.type === 'ImportDeclaration');
+				const anchor = imports.length ? imports[imports.length - 1] : instanceScript.startTag;
+				const indent = body.length
+					? /^\s*/u.exec(sourceCode.lines[body[0].loc.start.line - 1])![0]
+					: '\t';
+				return [fixer.insertTextAfter(anchor, `\n${indent}${declaration}`)];
+			}
+			const pattern = propsDeclarator.id;
+			if (pattern.type !== 'ObjectPattern' || pattern.typeAnnotation) {
+				return null;
+			}
+			const declared = new Set<string>();
+			for (const property of pattern.properties) {
+				if (property.type === 'Property' && property.value.type === 'Identifier') {
+					declared.add(property.value.name);
+				}
+			}
+			const missing = names.filter((name) => !declared.has(name));
+			if (missing.some((name) => toplevelScope?.set.has(name))) {
+				return null;
+			}
+			if (!missing.length) {
+				return [];
+			}
+			const rest = pattern.properties.find((property) => property.type === 'RestElement');
+			const last = [...pattern.properties]
+				.reverse()
+				.find((property) => property.type === 'Property');
+			if (rest) {
+				return [fixer.insertTextBefore(rest, `${missing.join(', ')}, `)];
+			}
+			if (last) {
+				return [fixer.insertTextAfter(last, `, ${missing.join(', ')}`)];
+			}
+			return [fixer.replaceText(pattern, `{ ${missing.join(', ')} }`)];
+		}
+
+		/**
+		 * Checks whether the given name is declared in the template or in a function,
+		 * which would shadow the snippet prop.
+		 */
+		function isShadowed(name: string): boolean {
+			const toplevelScope = getToplevelScope(context);
+			return sourceCode.scopeManager.scopes.some(
+				(scope) => scope !== toplevelScope && scope.type !== 'global' && scope.set.has(name)
+			);
+		}
+
+		/**
+		 * Verify the `<slot>` elements of the component.
+		 */
+		function verifySlots() {
+			const renders = slots.map(getSlotRender);
+			// Svelte does not allow mixing `<slot>` and `{@render}` in one component.
+			const fixable = renders.every(
+				(render): render is SlotRender =>
+					render != null && IDENTIFIER_RE.test(render.snippet) && !isShadowed(render.snippet)
+			);
+			const fix = fixable
+				? (fixer: RuleFixer) => {
+						const names = [...new Set(renders.map((render) => render.snippet))];
+						const fixes = declareSnippetProps(fixer, names);
+						if (!fixes) {
+							return null;
+						}
+						for (const render of renders) {
+							fixes.push(fixer.replaceText(render.node, buildRenderText(render)));
+						}
+						return fixes;
+					}
+				: null;
+			slots.forEach((node, index) => {
+				context.report({
+					node: node.startTag,
+					messageId: 'useRender',
+					data: { snippet: renders[index]?.snippet ?? 'children' },
+					fix
+				});
+			});
+		}
+
+		/**
+		 * Gets the parameters of the given snippet passed to the component.
+		 * Returns `null` if the parameters cannot be determined.
+		 */
+		function getSnippetParams(
+			snippetParams: Map<string, string[]>,
+			snippet: string,
+			lets: AST.SvelteLetDirective[],
+			body: string
+		): string | null {
+			if (!lets.length) {
+				return '';
+			}
+			const props = snippetParams.get(snippet);
+			if (!props) {
+				return null;
+			}
+			const params = new Map<string, string>();
+			for (const directive of lets) {
+				const name = directive.key.name.name;
+				if (!props.includes(name)) {
+					return null;
+				}
+				params.set(name, directive.expression ? sourceCode.getText(directive.expression) : name);
+			}
+			const lastIndex = Math.max(...[...params.keys()].map((name) => props.indexOf(name)));
+			const result: string[] = [];
+			for (const name of props.slice(0, lastIndex + 1)) {
+				const param = params.get(name);
+				if (param != null) {
+					result.push(param);
+					continue;
+				}
+				// The unused parameters are named after the arguments, so they must not shadow the variables used in the snippet.
+				if (new RegExp(`(?<![\\w$])${name.replace(/\$/gu, '\\$')}(?![\\w$])`, 'u').test(body)) {
+					return null;
+				}
+				result.push(name);
+			}
+			return result.join(', ');
+		}
+
+		/**
+		 * Verify the slotted contents of the given component.
+		 */
+		function verifyComponent(node: ComponentElement) {
+			const componentLets = getLetDirectives(node.startTag);
+			const slotted: {
+				element: AST.SvelteElement;
+				attr: AST.SvelteAttribute;
+				slotName: string | null;
+			}[] = [];
+			for (const child of node.children) {
+				if (child.type !== 'SvelteElement') {
+					continue;
+				}
+				const slotAttr = findStaticAttribute(child.startTag, 'slot');
+				if (slotAttr) {
+					slotted.push({ element: child, attr: slotAttr.node, slotName: slotAttr.value });
+				}
+			}
+			if (!componentLets.length && !slotted.length) {
+				return;
+			}
+
+			/** Converts all the slotted contents of the component at once. */
+			function fix(fixer: RuleFixer) {
+				return buildComponentFix(fixer, node, componentLets, slotted);
+			}
+
+			for (const directive of componentLets) {
+				context.report({
+					node: directive,
+					messageId: 'useSnippetParameter',
+					data: { snippet: 'children' },
+					fix
+				});
+			}
+			for (const { element, attr, slotName } of slotted) {
+				for (const directive of getLetDirectives(element.startTag)) {
+					context.report({
+						node: directive,
+						messageId: 'useSnippetParameter',
+						data: { snippet: getSnippetName(slotName ?? 'default') },
+						fix
+					});
+				}
+				context.report({
+					node: attr,
+					messageId: 'useSnippet',
+					data: { snippet: getSnippetName(slotName ?? 'default') },
+					fix
+				});
+			}
+		}
+
+		/**
+		 * Creates the fixes that convert the slotted contents of the given component into snippets.
+		 * Returns `null` if the contents cannot be converted.
+		 * The contents are converted only after the component itself is migrated to snippets,
+		 * since its `<slot>` elements do not render snippets.
+		 */
+		function buildComponentFix(
+			fixer: RuleFixer,
+			node: ComponentElement,
+			componentLets: AST.SvelteLetDirective[],
+			slotted: { element: AST.SvelteElement; attr: AST.SvelteAttribute; slotName: string | null }[]
+		): Fix[] | null {
+			const filePath = node.kind === 'component' ? resolveComponentPath(context, node) : null;
+			const snippetParams = filePath ? getComponentSnippetParams(context, filePath) : null;
+			if (!snippetParams) {
+				return null;
+			}
+			const fixes: Fix[] = [];
+
+			for (const { element, attr, slotName } of slotted) {
+				const snippet = getSnippetName(slotName ?? '');
+				if (!IDENTIFIER_RE.test(snippet)) {
+					return null;
+				}
+				const lets = getLetDirectives(element.startTag);
+				let content: string;
+				if (element.kind === 'special' && element.name.name === 'svelte:fragment') {
+					content = element.endTag
+						? sourceCode.text.slice(element.startTag.range[1], element.endTag.range[0])
+						: '';
+				} else {
+					content = getTextWithout(element.range, [attr, ...lets].map(getAttributeRemovalRange));
+				}
+				const params = getSnippetParams(snippetParams, snippet, lets, content);
+				if (params == null) {
+					return null;
+				}
+				fixes.push(
+					fixer.replaceText(element, `{#snippet ${snippet}(${params})}${content}{/snippet}`)
+				);
+			}
+
+			if (componentLets.length) {
+				const slottedElements = new Set<unknown>(slotted.map(({ element }) => element));
+				const contents = node.children.filter(
+					(child) => isMeaningfulChild(child) && !slottedElements.has(child)
+				);
+				const range: AST.Range | null = contents.length
+					? [contents[0].range[0], contents[contents.length - 1].range[1]]
+					: null;
+				if (
+					range &&
+					slotted.some(({ element }) => range[0] < element.range[0] && element.range[1] < range[1])
+				) {
+					return null;
+				}
+				const params = getSnippetParams(
+					snippetParams,
+					'children',
+					componentLets,
+					range ? sourceCode.text.slice(...range) : ''
+				);
+				if (params == null) {
+					return null;
+				}
+				for (const directive of componentLets) {
+					fixes.push(fixer.removeRange(getAttributeRemovalRange(directive)));
+				}
+				if (range) {
+					fixes.push(
+						fixer.replaceTextRange(
+							range,
+							`{#snippet children(${params})}${sourceCode.text.slice(...range)}{/snippet}`
+						)
+					);
+				}
+			}
+			return fixes;
+		}
+
+		return {
+			SvelteScriptElement(node: AST.SvelteScriptElement) {
+				const isModule = node.startTag.attributes.some(
+					(attr) =>
+						attr.type === 'SvelteAttribute' &&
+						((attr.key.name === 'context' && getStaticValue(attr) === 'module') ||
+							attr.key.name === 'module')
+				);
+				if (!isModule) {
+					instanceScript = node;
+				}
+			},
+			'VariableDeclarator[init.type="CallExpression"][init.callee.type="Identifier"][init.callee.name="$props"]'(
+				node: TSESTree.VariableDeclarator
+			) {
+				if ((node.parent.parent?.type as string) === 'SvelteScriptElement') {
+					propsDeclarator = node;
+				}
+			},
+			SvelteElement(node: AST.SvelteElement) {
+				if (node.kind === 'special' && node.name.name === 'svelte:options') {
+					svelteOptions = node;
+				} else if (
+					node.kind === 'html' &&
+					node.name.type === 'SvelteName' &&
+					node.name.name === 'slot'
+				) {
+					slots.push(node);
+				} else if (
+					node.kind === 'component' ||
+					(node.kind === 'special' &&
+						(node.name.name === 'svelte:component' || node.name.name === 'svelte:self'))
+				) {
+					verifyComponent(node);
+				}
+			},
+			'Program:exit'() {
+				if (runes) {
+					verifySlots();
+				}
+			}
+		};
+	}
+});
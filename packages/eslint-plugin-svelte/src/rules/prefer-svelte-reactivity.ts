@@ -0,0 +1,374 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import type { AST } from 'svelte-eslint-parser';
+import { ReferenceTracker, getPropertyName } from '@eslint-community/eslint-utils';
+import { createRule } from '../utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+import { findVariable } from '../utils/ast-utils.js';
+import { getTypeScriptTools } from '../utils/ts-utils/index.js';
+import type { TSTools } from '../utils/ts-utils/index.js';
+import type { RuleFixer } from '../types.js';
+import { getToplevelScope } from './reference-helpers/reactive-statement.js';
+
+const REACTIVE_CLASSES = {
+	Map: 'SvelteMap',
+	Set: 'SvelteSet',
+	Date: 'SvelteDate',
+	URL: 'SvelteURL',
+	URLSearchParams: 'SvelteURLSearchParams'
+} as const;
+type BuiltinClassName = keyof typeof REACTIVE_CLASSES;
+
+type Holder = {
+	variable: Variable;
+	/** Whether the variable is declared with `$state`. */
+	inState: boolean;
+};
+
+type ImportFix = {
+	/** The local name of the imported reactive class. */
+	name: string;
+	fixes: ReturnType<RuleFixer['insertTextBefore']>[];
+};
+
+const MUTATING_METHODS: Record<BuiltinClassName, RegExp | null> = {
+	Map: /^(?:set|delete|clear)$/u,
+	Set: /^(?:add|delete|clear)$/u,
+	Date: /^set/u,
+	URL: null,
+	URLSearchParams: /^(?:append|delete|set|sort)$/u
+};
+
+const URL_SETTERS = new Set([
+	'hash',
+	'host',
+	'hostname',
+	'href',
+	'password',
+	'pathname',
+	'port',
+	'protocol',
+	'search',
+	'username'
+]);
+
+/**
+ * Checks whether the given name is a built-in class that has a reactive version.
+ */
+function isBuiltinClassName(name: string): name is BuiltinClassName {
+	return Object.keys(REACTIVE_CLASSES).includes(name);
+}
+
+/**
+ * Checks whether the given member expression mutates an instance of the given class.
+ * e.g. `map.set(k, v)`, `date.setFullYear(2000)`, `url.pathname = '/'`, `url.searchParams.set(k, v)`
+ */
+function isMutatingMember(className: BuiltinClassName, member: TSESTree.MemberExpression): boolean {
+	const name = getPropertyName(member);
+	if (name == null) {
+		return false;
+	}
+	const parent = member.parent;
+	if (parent.type === 'CallExpression' && parent.callee === member) {
+		return MUTATING_METHODS[className]?.test(name) ?? false;
+	}
+	if (className !== 'URL') {
+		return false;
+	}
+	if (parent.type === 'AssignmentExpression' && parent.left === member) {
+		return URL_SETTERS.has(name);
+	}
+	return (
+		name === 'searchParams' &&
+		parent.type === 'MemberExpression' &&
+		parent.object === member &&
+		isMutatingMember('URLSearchParams', parent)
+	);
+}
+
+/**
+ * Checks whether the given node is a call to the given rune, e.g. `$derived(...)` or `$derived.by(...)`.
+ */
+function isRuneCall(node: TSESTree.Node | null | undefined, rune: string): boolean {
+	if (node?.type !== 'CallExpression') {
+		return false;
+	}
+	const callee = node.callee;
+	if (callee.type === 'Identifier') {
+		return callee.name === rune;
+	}
+	return (
+		callee.type === 'MemberExpression' &&
+		callee.object.type === 'Identifier' &&
+		callee.object.name === rune
+	);
+}
+
+/**
+ * Checks whether the given reference is read by the template or by `$derived`.
+ */
+function isReadReactively(id: TSESTree.Identifier): boolean {
+	let inTemplate = false;
+	let node = id.parent as TSESTree.Node | AST.SvelteNode | null;
+	while (node) {
+		if (node.type === 'SvelteScriptElement') {
+			return false;
+		}
+		if (isRuneCall(node as TSESTree.Node, '$derived')) {
+			return true;
+		}
+		if (node.type.startsWith('Svelte')) {
+			inTemplate = true;
+		}
+		node = node.parent as TSESTree.Node | AST.SvelteNode | null;
+	}
+	return inTemplate;
+}
+
+/**
+ * Gets the name of the built-in class constructed by the given expression, using type information.
+ * e.g. `const Dict = Map; new Dict()`
+ */
+function getBuiltinClassNameFromType(
+	node: TSESTree.NewExpression,
+	tools: TSTools
+): BuiltinClassName | null {
+	const tsNode = tools.service.esTreeNodeToTSNodeMap.get(node);
+	if (!tsNode) {
+		return null;
+	}
+	const { program } = tools.service;
+	const symbol = program.getTypeChecker().getTypeAtLocation(tsNode).getSymbol();
+	const name = symbol?.getName();
+	if (!symbol || !name || !isBuiltinClassName(name)) {
+		return null;
+	}
+	const declarations = symbol.getDeclarations() ?? [];
+	if (
+		declarations.length === 0 ||
+		!declarations.every((declaration) =>
+			program.isSourceFileDefaultLibrary(declaration.getSourceFile())
+		)
+	) {
+		return null;
+	}
+	return name;
+}
+
+export default createRule('prefer-svelte-reactivity', {
+	meta: {
+		docs: {
+			description:
+				'require the reactive classes from `svelte/reactivity` instead of mutated `Map`, `Set`, `Date`, `URL` and `URLSearchParams`',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		hasSuggestions: true,
+		schema: [],
+		messages: {
+			preferReactive:
+				'Use `{{reactiveName}}` from `svelte/reactivity` instead of `{{name}}`. Mutations of `{{name}}` are not reactive.',
+			useReactiveClass: 'Replace with `{{reactiveName}}` from `svelte/reactivity`.'
+		},
+		type: 'problem',
+		conditions: [
+			{
+				svelteVersions: ['5'],
+				runes: [true]
+			}
+		]
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const tools = getTypeScriptTools(context);
+		const newExpressions: TSESTree.NewExpression[] = [];
+
+		/**
+		 * Gets the variable that holds the value of the given expression, and whether the variable is a `$state`.
+		 * e.g. `const map = new Map()`, `let map = $state(new Map())`, `map = new Map()`
+		 */
+		function getHolder(node: TSESTree.NewExpression): Holder | null {
+			let expression: TSESTree.Node = node;
+			let inState = false;
+			if (isRuneCall(node.parent, '$state')) {
+				expression = node.parent;
+				inState = true;
+			}
+			const parent = expression.parent;
+			let id: TSESTree.Node | null = null;
+			if (parent?.type === 'VariableDeclarator' && parent.init === expression) {
+				id = parent.id;
+			} else if (parent?.type === 'AssignmentExpression' && parent.right === expression) {
+				id = parent.left;
+			}
+			if (id?.type !== 'Identifier') {
+				return null;
+			}
+			const variable = findVariable(context, id);
+			if (!variable) {
+				return null;
+			}
+			const def = variable.defs[0];
+			if (def?.type === 'Variable' && isRuneCall(def.node.init, '$state')) {
+				inState = true;
+			}
+			return { variable, inState };
+		}
+
+		/**
+		 * Checks whether the value of the given variable is mutated.
+		 */
+		function isMutated(variable: Variable, className: BuiltinClassName): boolean {
+			return variable.references.some((reference) => {
+				const id = reference.identifier;
+				return (
+					id.parent?.type === 'MemberExpression' &&
+					id.parent.object === id &&
+					isMutatingMember(className, id.parent)
+				);
+			});
+		}
+
+		/**
+		 * Creates the fixers that add the import of the given reactive class, and returns its local name.
+		 */
+		function buildImport(
+			fixer: RuleFixer,
+			node: TSESTree.NewExpression,
+			reactiveName: string
+		): ImportFix | null {
+			let script = node.parent as TSESTree.Node | AST.SvelteNode | null;
+			while (script && script.type !== 'SvelteScriptElement' && script.type !== 'Program') {
+				script = script.parent as TSESTree.Node | AST.SvelteNode | null;
+			}
+			if (!script?.body.length || script.body[0].type.startsWith('Svelte')) {
+				return null;
+			}
+			const body = script.body;
+			const specifiers = body
+				.flatMap((statement) =>
+					statement.type === 'ImportDeclaration' && statement.source.value === 'svelte/reactivity'
+						? statement.specifiers
+						: []
+				)
+				.filter(
+					(specifier): specifier is TSESTree.ImportSpecifier => specifier.type === 'ImportSpecifier'
+				);
+			const imported = specifiers.find((specifier) => getImportedName(specifier) === reactiveName);
+			if (imported) {
+				return { name: imported.local.name, fixes: [] };
+			}
+			if (getToplevelScope(context)?.set.has(reactiveName)) {
+				// The name is already used by another variable.
+				return null;
+			}
+			if (specifiers.length) {
+				return {
+					name: reactiveName,
+					fixes: [fixer.insertTextAfter(specifiers[specifiers.length - 1], `, ${reactiveName}`)]
+				};
+			}
+			const first = body[0];
+			const indent = sourceCode.lines[first.loc.start.line - 1].slice(0, first.loc.start.column);
+			const importText = `import { ${reactiveName} } from 'svelte/reactivity';`;
+			const lastImport = body.filter((statement) => statement.type === 'ImportDeclaration').pop();
+			return {
+				name: reactiveName,
+				fixes: [
+					lastImport
+						? fixer.insertTextAfter(lastImport, `\n${indent}${importText}`)
+						: fixer.insertTextBefore(first, `${importText}\n${indent}`)
+				]
+			};
+		}
+
+		/**
+		 * Verify the given `new` expression that constructs the given built-in class.
+		 */
+		function verify(node: TSESTree.NewExpression, className: BuiltinClassName) {
+			const holder = getHolder(node);
+			if (!holder || !isMutated(holder.variable, className)) {
+				return;
+			}
+			if (
+				!holder.inState &&
+				!holder.variable.references.some(
+					(reference) =>
+						!reference.init && isReadReactively(reference.identifier as TSESTree.Identifier)
+				)
+			) {
+				return;
+			}
+			const reactiveName = REACTIVE_CLASSES[className];
+			context.report({
+				node,
+				messageId: 'preferReactive',
+				data: { name: className, reactiveName },
+				suggest: [
+					{
+						messageId: 'useReactiveClass',
+						data: { reactiveName },
+						*fix(fixer) {
+							const result = buildImport(fixer, node, reactiveName);
+							if (!result) {
+								return;
+							}
+							yield* result.fixes;
+							yield fixer.replaceText(node.callee, result.name);
+						}
+					}
+				]
+			});
+		}
+
+		return {
+			NewExpression(node: TSESTree.NewExpression) {
+				newExpressions.push(node);
+			},
+			'Program:exit'() {
+				const classNames = new Map<TSESTree.NewExpression, BuiltinClassName>();
+				const referenceTracker = new ReferenceTracker(sourceCode.scopeManager.globalScope!);
+				for (const { node, path } of referenceTracker.iterateGlobalReferences(
+					Object.fromEntries(
+						Object.keys(REACTIVE_CLASSES).map((name) => [
+							name,
+							{ [ReferenceTracker.CONSTRUCT]: true }
+						])
+					)
+				)) {
+					classNames.set(node as TSESTree.NewExpression, path[path.length - 1] as BuiltinClassName);
+				}
+				for (const node of newExpressions) {
+					if (classNames.has(node)) {
+						continue;
+					}
+					if (
+						node.callee.type === 'Identifier' &&
+						isBuiltinClassName(node.callee.name) &&
+						!findVariable(context, node.callee)
+					) {
+						// The global is not declared in the environment, e.g. `URL` without browser globals.
+						classNames.set(node, node.callee.name);
+						continue;
+					}
+					const className = tools && getBuiltinClassNameFromType(node, tools);
+					if (className) {
+						classNames.set(node, className);
+					}
+				}
+				for (const [node, className] of classNames) {
+					verify(node, className);
+				}
+			}
+		};
+	}
+});
+
+/**
+ * Gets the imported name of the given import specifier.
+ */
+function getImportedName(specifier: TSESTree.ImportSpecifier): string {
+	return specifier.imported.type === 'Identifier'
+		? specifier.imported.name
+		: String(specifier.imported.value);
+}
@@ -0,0 +1,141 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Scope, Variable, Definition } from '@typescript-eslint/scope-manager';
+import type { AST } from 'svelte-eslint-parser';
+import type { RuleContext } from '../../types.js';
+import { findVariable, iterateIdentifiers } from '../../utils/ast-utils.js';
+import { getSourceCode } from '../../utils/compat.js';
+
+/**
+ * Find the top-level (module or global) scope.
+ * Any variable defined at the top-level (module scope or global scope) can be made reactive.
+ */
+export function getToplevelScope(context: RuleContext): Scope | null {
+	const scopeManager = getSourceCode(context).scopeManager;
+	return (
+		scopeManager.globalScope?.childScopes.find((scope) => scope.type === 'module') ||
+		scopeManager.globalScope
+	);
+}
+
+/**
+ * Return true if `node` is a function call.
+ */
+export function isFunctionCall(node: TSESTree.Node): boolean {
+	if (node.type !== 'Identifier') return false;
+	const { parent } = node;
+	if (parent?.type !== 'CallExpression') return false;
+	return parent.callee.type === 'Identifier' && parent.callee.name === node.name;
+}
+
+/**
+ * Get all reactive variable reference.
+ */
+export function getReactiveVariableReferences(context: RuleContext): TSESTree.Identifier[] {
+	const toplevelScope = getToplevelScope(context);
+	if (!toplevelScope) {
+		return [];
+	}
+
+	// Extracts all reactive references to variables defined in the top-level scope.
+	const reactiveVariableNodes: TSESTree.Identifier[] = [];
+	for (const variable of toplevelScope.variables) {
+		for (const reference of variable.references) {
+			if (reference.identifier.type === 'Identifier' && !isFunctionCall(reference.identifier)) {
+				reactiveVariableNodes.push(reference.identifier);
+			}
+		}
+	}
+	return reactiveVariableNodes;
+}
+
+/**
+ * Get all tracked reactive variables.
+ */
+export function getTrackedVariableNodes(
+	reactiveVariableReferences: TSESTree.Identifier[],
+	ast: AST.SvelteReactiveStatement
+): Set<TSESTree.Identifier> {
+	const reactiveVariableNodes: Set<TSESTree.Identifier> = new Set();
+	for (const identifier of reactiveVariableReferences) {
+		if (
+			// If the identifier is within the reactive statement range,
+			// it is used within the reactive statement.
+			ast.range[0] <= identifier.range[0] &&
+			identifier.range[1] <= ast.range[1]
+		) {
+			reactiveVariableNodes.add(identifier);
+		}
+	}
+	return reactiveVariableNodes;
+}
+
+/**
+ * Checks whether the given variable has a write or reactive store reference or not.
+ * Writes inside of `ignoreRange` are not counted.
+ */
+export function hasWrite(
+	context: RuleContext,
+	variable: Variable,
+	ignoreRange?: [number, number]
+): boolean {
+	const defIds = variable.defs.map((def: Definition) => def.name);
+	for (const reference of variable.references) {
+		const id = reference.identifier;
+		if (ignoreRange && ignoreRange[0] <= id.range[0] && id.range[1] <= ignoreRange[1]) {
+			continue;
+		}
+		if (
+			reference.isWrite() &&
+			!defIds.some((defId) => defId.range[0] <= id.range[0] && id.range[1] <= defId.range[1])
+		) {
+			return true;
+		}
+		if (hasWriteMember(context, id)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/** Checks whether the given expression has writing to a member or not. */
+function hasWriteMember(
+	context: RuleContext,
+	expr: TSESTree.Identifier | TSESTree.JSXIdentifier | TSESTree.MemberExpression
+): boolean {
+	if (expr.type === 'JSXIdentifier') return false;
+	const parent = expr.parent as TSESTree.Node | AST.SvelteNode;
+	if (parent.type === 'AssignmentExpression') {
+		return parent.left === expr;
+	}
+	if (parent.type === 'UpdateExpression') {
+		return parent.argument === expr;
+	}
+	if (parent.type === 'UnaryExpression') {
+		return parent.operator === 'delete' && parent.argument === expr;
+	}
+	if (parent.type === 'MemberExpression') {
+		return parent.object === expr && hasWriteMember(context, parent);
+	}
+	if (parent.type === 'SvelteDirective') {
+		return parent.kind === 'Binding' && parent.expression === expr;
+	}
+	if (parent.type === 'SvelteEachBlock') {
+		return (
+			parent.context !== null &&
+			parent.expression === expr &&
+			hasWriteReference(context, parent.context)
+		);
+	}
+
+	return false;
+}
+
+/** Checks whether the given pattern has writing or not. */
+function hasWriteReference(context: RuleContext, pattern: TSESTree.DestructuringPattern): boolean {
+	for (const id of iterateIdentifiers(pattern)) {
+		const variable = findVariable(context, id);
+		if (variable && hasWrite(context, variable)) return true;
+	}
+
+	return false;
+}
@@ -1,25 +1,15 @@
 import type { AST } from 'svelte-eslint-parser';
 import { createRule } from '../utils/index.js';
 import { getAttributeKeyText } from '../utils/ast-utils.js';
-import { toRegExp } from '../utils/regexp.js';
+import { compileOrderOption, ORDER_OPTION_ITEM_SCHEMA } from '../utils/order-option.js';
+import type { CompiledOrderOption, UserOrderOption } from '../utils/order-option.js';
 import { getSourceCode } from '../utils/compat.js';
 
-type UserOrderObjectOption = {
-	match: string | string[];
-	sort: 'alphabetical' | 'ignore';
-};
-type UserOrderOption = string | string[] | UserOrderObjectOption;
-
 type ParsedOption = {
 	ignore: (keyText: string) => boolean;
 	compare: (a: string, b: string) => number;
 };
 
-type CompiledOption = {
-	match: (str: string) => boolean;
-	sort: 'alphabetical' | 'ignore';
-};
-
 type Attr = AST.SvelteStartTag['attributes'][number];
 type HasKeyAttr = Exclude<Attr, AST.SvelteSpreadAttribute>;
 
@@ -67,7 +57,7 @@ const DEFAULT_ORDER: UserOrderOption[] = [
 function parseOption(option?: { order: UserOrderOption[] }): ParsedOption {
 	const order: UserOrderOption[] = option?.order ?? DEFAULT_ORDER;
 
-	const compiled: CompiledOption[] = order.map(compileOption);
+	const compiled: CompiledOrderOption[] = order.map(compileOrderOption);
 
 	return {
 		ignore: (key) => {
@@ -95,66 +85,6 @@ function parseOption(option?: { order: UserOrderOption[] }): ParsedOption {
 	};
 }
 
-/** Compile order option */
-function compileOption(option: UserOrderOption): CompiledOption {
-	const cache: Record<string, boolean> = {};
-	const compiled = compileOptionWithoutCache(option);
-
-	return {
-		match: (str) => {
-			if (cache[str] != null) return cache[str];
-			return (cache[str] = compiled.match(str));
-		},
-		sort: compiled.sort
-	};
-
-	/** Compile order option without cache */
-	function compileOptionWithoutCache(option: UserOrderOption): CompiledOption {
-		if (typeof option === 'string') {
-			const match = compileMatcher([option]);
-			return { match, sort: 'ignore' };
-		}
-		if (Array.isArray(option)) {
-			const match = compileMatcher(option);
-			return { match, sort: 'ignore' };
-		}
-		const { match } = compileOptionWithoutCache(option.match);
-		return { match, sort: option.sort || 'ignore' };
-	}
-}
-
-/** Compile matcher */
-function compileMatcher(pattern: string[]): (str: string) => boolean {
-	const rules: { negative: boolean; match: (str: string) => boolean }[] = [];
-	for (const p of pattern) {
-		let negative: boolean, patternStr: string;
-		if (p.startsWith('!')) {
-			// If there is `!` at the beginning, it will be parsed with a negative pattern.
-			negative = true;
-			patternStr = p.substring(1);
-		} else {
-			negative = false;
-			patternStr = p;
-		}
-		const regex = toRegExp(patternStr);
-		rules.push({ negative, match: (str) => regex.test(str) });
-	}
-	return (str) => {
-		// If the first rule is a negative pattern, they are considered to match if they do not match that pattern.
-		let result = Boolean(rules[0]?.negative);
-		for (const { negative, match } of rules) {
-			if (result === !negative) {
-				// Even if it matches, the result does not change, so skip it.
-				continue;
-			}
-			if (match(str)) {
-				result = !negative;
-			}
-		}
-		return result;
-	};
-}
-
 export default createRule('sort-attributes', {
 	meta: {
 		docs: {
@@ -169,42 +99,7 @@ export default createRule('sort-attributes', {
 				properties: {
 					order: {
 						type: 'array',
-						items: {
-							anyOf: [
-								{ type: 'string' },
-								{
-									type: 'array',
-									items: {
-										type: 'string'
-									},
-									uniqueItems: true,
-									minItems: 1
-								},
-								{
-									type: 'object',
-									properties: {
-										match: {
-											anyOf: [
-												{ type: 'string' },
-												{
-													type: 'array',
-													items: {
-														type: 'string'
-													},
-													uniqueItems: true,
-													minItems: 1
-												}
-											]
-										},
-										sort: {
-											enum: ['alphabetical', 'ignore']
-										}
-									},
-									required: ['match', 'sort'],
-									additionalProperties: false
-								}
-							]
-						},
+						items: ORDER_OPTION_ITEM_SCHEMA,
 						uniqueItems: true,
 						additionalItems: false
 					},
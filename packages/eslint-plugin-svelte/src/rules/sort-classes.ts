@@ -0,0 +1,396 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import { createRule } from '../utils/index.js';
+import { compileOrderOption, ORDER_OPTION_ITEM_SCHEMA } from '../utils/order-option.js';
+import type { UserOrderOption } from '../utils/order-option.js';
+import { loadModule } from '../utils/load-module.js';
+import { getSourceCode } from '../utils/compat.js';
+import type { RuleContext } from '../types.js';
+
+type ClassItem = {
+	/** The class name used to sort the item. */
+	name: string;
+	range: AST.Range;
+};
+
+type SortClassNames = (classNames: string[]) => string[];
+
+/** The functions that combine class names in the same way as `clsx`. */
+const CLSX_FUNCTIONS = ['clsx', 'classnames', 'classNames', 'cn', 'cx'];
+
+/**
+ * Compare class names in alphabetical order.
+ */
+function compareAlphabetically(a: string, b: string): number {
+	return a === b ? 0 : a < b ? -1 : 1;
+}
+
+/**
+ * Creates the function that sorts the class names in the order of the given groups.
+ * Class names that do not match any group are moved to the end, keeping their order.
+ */
+function createGroupSorter(order: UserOrderOption[]): SortClassNames {
+	const compiled = order.map(compileOrderOption);
+
+	/** Gets the index of the group that the class name belongs to. */
+	function getGroupIndex(name: string) {
+		const index = compiled.findIndex((c) => c.match(name));
+		return index >= 0 ? index : compiled.length;
+	}
+
+	return (classNames) =>
+		[...classNames].sort((a, b) => {
+			const groupA = getGroupIndex(a);
+			const groupB = getGroupIndex(b);
+			if (groupA !== groupB) {
+				return groupA - groupB;
+			}
+			return compiled[groupA]?.sort === 'alphabetical' ? compareAlphabetically(a, b) : 0;
+		});
+}
+
+/**
+ * Loads the function that sorts the class names from the given module.
+ * The module can export the function as the module itself, the default export, or `sortClasses`.
+ * Throws an error if the function cannot be loaded, since falling back to another order silently
+ * would rewrite the classes of the whole project.
+ */
+function loadSorter(context: RuleContext, name: string): SortClassNames {
+	const mod = loadModule<
+		SortClassNames | { default?: SortClassNames; sortClasses?: SortClassNames }
+	>(context, name);
+	if (mod == null) {
+		throw new Error(`svelte/sort-classes: Failed to load the sorter '${name}'.`);
+	}
+	if (typeof mod === 'function') {
+		return mod;
+	}
+	const sorter = mod.default ?? mod.sortClasses;
+	if (typeof sorter !== 'function') {
+		throw new Error(
+			`svelte/sort-classes: The sorter '${name}' must export a function as the module itself, the default export, or \`sortClasses\`.`
+		);
+	}
+	return sorter;
+}
+
+/**
+ * Checks whether the given result of the sorter is a permutation of the class names.
+ */
+function isPermutation(classNames: string[], result: unknown): result is string[] {
+	if (!Array.isArray(result) || result.length !== classNames.length) {
+		return false;
+	}
+	const rest = [...classNames];
+	for (const name of result) {
+		const index = rest.indexOf(name);
+		if (index < 0) {
+			return false;
+		}
+		rest.splice(index, 1);
+	}
+	return true;
+}
+
+export default createRule('sort-classes', {
+	meta: {
+		docs: {
+			description: 'enforce order of class names and disallow duplicate class names',
+			category: 'Stylistic Issues',
+			recommended: false,
+			conflictWithPrettier: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					order: {
+						type: 'array',
+						items: ORDER_OPTION_ITEM_SCHEMA,
+						uniqueItems: true,
+						additionalItems: false
+					},
+					sorter: { type: 'string' }
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			shouldBefore: "Class '{{currentName}}' should go before '{{prevName}}'.",
+			duplicated: "Class '{{name}}' is duplicated."
+		},
+		type: 'layout',
+		fixable: 'code'
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const order: UserOrderOption[] | undefined = context.options[0]?.order;
+		const sorterName: string | undefined = context.options[0]?.sorter;
+		const sortClassNames: SortClassNames = sorterName
+			? loadSorter(context, sorterName)
+			: order
+				? createGroupSorter(order)
+				: (classNames) => [...classNames].sort(compareAlphabetically);
+
+		/**
+		 * Sorts the given items by their class names.
+		 */
+		function sortItems(items: ClassItem[]): ClassItem[] {
+			const names = items.map((item) => item.name);
+			const sorted: unknown = sortClassNames([...names]);
+			if (!isPermutation(names, sorted)) {
+				return items;
+			}
+			const rest = [...items];
+			return sorted.map(
+				(name) =>
+					rest.splice(
+						rest.findIndex((item) => item.name === name),
+						1
+					)[0]
+			);
+		}
+
+		/**
+		 * Builds the text of the given items in the new order.
+		 * The text between the original items is reused as the separators.
+		 */
+		function buildText(originalItems: ClassItem[], newItems: ClassItem[]): string {
+			let text = '';
+			newItems.forEach((item, index) => {
+				text += sourceCode.text.slice(...item.range);
+				if (index < newItems.length - 1) {
+					text += sourceCode.text.slice(
+						originalItems[index].range[1],
+						originalItems[index + 1].range[0]
+					);
+				}
+			});
+			return text;
+		}
+
+		/**
+		 * Verify the order and the duplicates of the given items.
+		 */
+		function verifyItems(items: ClassItem[], { deduplicate }: { deduplicate: boolean }) {
+			if (items.length < 2) {
+				return;
+			}
+			const range: AST.Range = [items[0].range[0], items[items.length - 1].range[1]];
+			let uniqueItems = items;
+			if (deduplicate) {
+				const names = new Set<string>();
+				uniqueItems = [];
+				const duplicatedItems: ClassItem[] = [];
+				for (const item of items) {
+					if (names.has(item.name)) {
+						duplicatedItems.push(item);
+					} else {
+						names.add(item.name);
+						uniqueItems.push(item);
+					}
+				}
+				for (const item of duplicatedItems) {
+					context.report({
+						loc: getLoc(item.range),
+						messageId: 'duplicated',
+						data: { name: item.name },
+						fix: (fixer) => fixer.replaceTextRange(range, buildText(items, uniqueItems))
+					});
+				}
+			}
+
+			const sortedItems = sortItems(uniqueItems);
+			const index = sortedItems.findIndex((item, i) => item !== uniqueItems[i]);
+			if (index < 0) {
+				return;
+			}
+			context.report({
+				loc: getLoc(sortedItems[index].range),
+				messageId: 'shouldBefore',
+				data: {
+					currentName: sortedItems[index].name,
+					prevName: uniqueItems[index].name
+				},
+				fix: (fixer) => fixer.replaceTextRange(range, buildText(items, sortedItems))
+			});
+		}
+
+		/**
+		 * Gets the location of the given range.
+		 */
+		function getLoc(range: AST.Range): AST.SourceLocation {
+			return {
+				start: sourceCode.getLocFromIndex(range[0]),
+				end: sourceCode.getLocFromIndex(range[1])
+			};
+		}
+
+		/**
+		 * Gets the class names in the given range of the class list string.
+		 */
+		function getClassNameItems(range: AST.Range): ClassItem[] {
+			const text = sourceCode.text.slice(...range);
+			return [...text.matchAll(/\S+/gu)].map((match) => {
+				const start = range[0] + match.index;
+				return { name: match[0], range: [start, start + match[0].length] };
+			});
+		}
+
+		/**
+		 * Gets the range of the contents of the given string literal.
+		 * Returns `null` if the string has escapes, since the sorted text cannot be reused as is.
+		 */
+		function getStringContentRange(node: TSESTree.Node): AST.Range | null {
+			if (
+				(node.type === 'Literal' && typeof node.value === 'string') ||
+				(node.type === 'TemplateLiteral' && node.expressions.length === 0)
+			) {
+				const range: AST.Range = [node.range[0] + 1, node.range[1] - 1];
+				return sourceCode.text.slice(...range).includes('\\') ? null : range;
+			}
+			return null;
+		}
+
+		/**
+		 * Gets the class name of the given node if it is a string with a single class name.
+		 */
+		function getSingleClassName(node: TSESTree.Node): string | null {
+			const range = getStringContentRange(node);
+			if (!range) {
+				return null;
+			}
+			const items = getClassNameItems(range);
+			return items.length === 1 ? items[0].name : null;
+		}
+
+		/**
+		 * Verify the runs of the given nodes that each hold a single class name.
+		 */
+		function verifyRuns(
+			nodes: TSESTree.Node[],
+			getName: (node: TSESTree.Node) => string | null,
+			{ deduplicate }: { deduplicate: boolean }
+		) {
+			let run: ClassItem[] = [];
+			for (const node of [...nodes, null]) {
+				const name = node && getName(node);
+				if (node && name != null) {
+					run.push({ name, range: node.range });
+					continue;
+				}
+				verifyItems(run, { deduplicate });
+				run = [];
+			}
+		}
+
+		/**
+		 * Verify the class names in the given expression.
+		 */
+		function verifyExpression(node: TSESTree.Node) {
+			const range = getStringContentRange(node);
+			if (range) {
+				verifyItems(getClassNameItems(range), { deduplicate: true });
+				return;
+			}
+			switch (node.type) {
+				case 'ConditionalExpression': {
+					verifyExpression(node.consequent);
+					verifyExpression(node.alternate);
+					return;
+				}
+				case 'LogicalExpression': {
+					if (node.operator !== '&&') {
+						verifyExpression(node.left);
+					}
+					verifyExpression(node.right);
+					return;
+				}
+				case 'ArrayExpression': {
+					const elements = node.elements.filter((element) => element != null);
+					for (const element of elements) {
+						verifyExpression(element);
+					}
+					verifyRuns(elements, getSingleClassName, { deduplicate: true });
+					return;
+				}
+				case 'ObjectExpression': {
+					for (const property of node.properties) {
+						if (property.type === 'Property' && !property.computed) {
+							verifyExpression(property.key);
+						}
+					}
+					// Duplicate keys are not removed because the last value wins.
+					verifyRuns(node.properties, getPropertyClassName, { deduplicate: false });
+					return;
+				}
+				case 'CallExpression': {
+					if (node.callee.type === 'Identifier' && CLSX_FUNCTIONS.includes(node.callee.name)) {
+						for (const argument of node.arguments) {
+							verifyExpression(argument);
+						}
+					}
+					break;
+				}
+				default: {
+					break;
+				}
+			}
+		}
+
+		/**
+		 * Gets the class name of the given property if its key holds a single class name.
+		 */
+		function getPropertyClassName(node: TSESTree.Node): string | null {
+			if (node.type !== 'Property' || node.computed) {
+				return null;
+			}
+			if (node.key.type === 'Identifier') {
+				return node.key.name;
+			}
+			return getSingleClassName(node.key);
+		}
+
+		return {
+			SvelteStartTag(node: AST.SvelteStartTag) {
+				const element = node.parent;
+				if (
+					element.type !== 'SvelteElement' ||
+					element.kind === 'component' ||
+					(element.kind === 'special' && element.name.name !== 'svelte:element')
+				) {
+					return;
+				}
+				const directives: AST.SvelteClassDirective[] = [];
+				for (const attr of [...node.attributes, null]) {
+					if (attr?.type === 'SvelteDirective' && attr.kind === 'Class') {
+						directives.push(attr);
+						continue;
+					}
+					// Directives with the same name are a compile error, so they are only sorted.
+					verifyItems(
+						directives.map((directive) => ({
+							name: directive.key.name.name,
+							range: directive.range
+						})),
+						{ deduplicate: false }
+					);
+					directives.length = 0;
+					if (attr?.type !== 'SvelteAttribute' || attr.key.name !== 'class') {
+						continue;
+					}
+					if (attr.value.length === 1 && attr.value[0].type === 'SvelteLiteral') {
+						verifyItems(getClassNameItems(attr.value[0].range), { deduplicate: true });
+						continue;
+					}
+					// The literal parts of mixed values are not sorted, since they may be joined with the expressions.
+					for (const value of attr.value) {
+						if (value.type === 'SvelteMustacheTag') {
+							verifyExpression(value.expression);
+						}
+					}
+				}
+			}
+		};
+	}
+});
@@ -0,0 +1,363 @@
+import type { AST } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { getTypeScriptTools } from '../utils/ts-utils/index.js';
+import type { TS, TSTools, TypeScript } from '../utils/ts-utils/index.js';
+import { resolveComponentPath } from '../utils/component-resolver.js';
+import { findTypeDeclaration, getComponentDefinition } from '../utils/component-graph.js';
+import type { ComponentDefinition, ComponentProp } from '../utils/component-graph.js';
+
+type LiteralValue = string | number | boolean | null | undefined;
+
+type PassedProp = {
+	name: string;
+	node: AST.SvelteHTMLNode;
+	/** The literal value passed to the prop. `undefined` if the value is not a literal. */
+	value?: { value: LiteralValue };
+};
+
+type AcceptedValues = {
+	/** The kinds of values accepted, e.g. `string` or `object`. */
+	kinds: Set<string>;
+	literals: Set<LiteralValue>;
+};
+
+/** The global types that never accept primitive values. */
+const OBJECT_TYPE_NAMES = new Set([
+	'Array',
+	'Component',
+	'Date',
+	'Function',
+	'Map',
+	'Promise',
+	'ReadonlyArray',
+	'Record',
+	'Set',
+	'Snippet'
+]);
+
+export default createRule('valid-component-props', {
+	meta: {
+		docs: {
+			description: 'disallow props that do not match the props declared by the child component',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					checkUnknownProps: {
+						type: 'boolean'
+					},
+					checkMissingProps: {
+						type: 'boolean'
+					},
+					checkLiteralTypes: {
+						type: 'boolean'
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			unknownProp: "'{{name}}' is not a prop of '{{component}}'.",
+			missingProp: "'{{component}}' requires the prop '{{name}}'.",
+			typeMismatch:
+				"The value {{value}} is not assignable to the type '{{type}}' of the prop '{{name}}'."
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const tools = getTypeScriptTools(context);
+		if (!tools) {
+			return {};
+		}
+		const { ts } = tools;
+		const checkUnknownProps = context.options[0]?.checkUnknownProps ?? true;
+		const checkMissingProps = context.options[0]?.checkMissingProps ?? true;
+		const checkLiteralTypes = context.options[0]?.checkLiteralTypes ?? true;
+
+		return {
+			'SvelteElement[kind="component"]'(node: AST.SvelteComponentElement) {
+				const filePath = resolveComponentPath(context, node);
+				const definition = filePath ? getComponentDefinition(context, ts, filePath) : null;
+				if (!definition) {
+					return;
+				}
+				const component = node.name.type === 'Identifier' ? node.name.name : '';
+				const { props, hasSpread } = collectPassedProps(tools, node, definition);
+
+				for (const passed of props) {
+					const prop = definition.props.get(passed.name);
+					if (!prop) {
+						if (checkUnknownProps && definition.closed) {
+							context.report({
+								node: passed.node,
+								messageId: 'unknownProp',
+								data: { name: passed.name, component }
+							});
+						}
+						continue;
+					}
+					if (checkLiteralTypes && passed.value) {
+						verifyLiteralType(definition, prop, passed, passed.value.value);
+					}
+				}
+				if (checkMissingProps && !hasSpread) {
+					const names = new Set(props.map((p) => p.name));
+					for (const prop of definition.props.values()) {
+						if (prop.required && !names.has(prop.name)) {
+							context.report({
+								node: node.startTag,
+								messageId: 'missingProp',
+								data: { name: prop.name, component }
+							});
+						}
+					}
+				}
+			}
+		};
+
+		/**
+		 * Verify that the literal value passed to the prop matches the declared type.
+		 */
+		function verifyLiteralType(
+			definition: ComponentDefinition,
+			prop: ComponentProp,
+			passed: PassedProp,
+			value: LiteralValue
+		) {
+			if (!prop.type) {
+				return;
+			}
+			const accepted = getAcceptedValues(ts, definition, prop.type, new Set());
+			if (!accepted || isAccepted(accepted, value, prop.required)) {
+				return;
+			}
+			context.report({
+				node: passed.node,
+				messageId: 'typeMismatch',
+				data: {
+					name: prop.name,
+					value: typeof value === 'string' ? JSON.stringify(value) : String(value),
+					type: prop.type.getText()
+				}
+			});
+		}
+	}
+});
+
+/**
+ * Collects the props passed to the component.
+ */
+function collectPassedProps(
+	tools: TSTools,
+	node: AST.SvelteComponentElement,
+	definition: ComponentDefinition
+): { props: PassedProp[]; hasSpread: boolean } {
+	const props: PassedProp[] = [];
+	let hasSpread = false;
+	for (const attr of node.startTag.attributes) {
+		if (attr.type === 'SvelteSpreadAttribute') {
+			hasSpread = true;
+		} else if (attr.type === 'SvelteAttribute') {
+			const name = attr.key.name;
+			// CSS custom properties and the `slot` attribute are not props.
+			if (name.startsWith('--') || name === 'slot') {
+				continue;
+			}
+			props.push({ name, node: attr, value: getAttributeLiteral(tools, attr) });
+		} else if (attr.type === 'SvelteShorthandAttribute') {
+			props.push({
+				name: attr.key.name,
+				node: attr,
+				value: getExpressionLiteral(tools, attr.value)
+			});
+		} else if (
+			attr.type === 'SvelteDirective' &&
+			attr.kind === 'Binding' &&
+			// `bind:this` binds the component instance, not a prop.
+			attr.key.name.name !== 'this'
+		) {
+			props.push({ name: attr.key.name.name, node: attr });
+		}
+	}
+	if (definition.runes) {
+		// Contents of the component are passed as snippet props.
+		for (const child of node.children) {
+			if (child.type === 'SvelteSnippetBlock') {
+				props.push({ name: child.id.name, node: child });
+			} else if (
+				!props.some((p) => p.name === 'children') &&
+				(child.type !== 'SvelteText' || child.value.trim())
+			) {
+				props.push({ name: 'children', node: child });
+			}
+		}
+	}
+	return { props, hasSpread };
+}
+
+/**
+ * Gets the literal value of the given attribute.
+ */
+function getAttributeLiteral(
+	tools: TSTools,
+	attr: AST.SvelteAttribute
+): PassedProp['value'] | undefined {
+	if (attr.boolean) {
+		return { value: true };
+	}
+	if (attr.value.every((v) => v.type === 'SvelteLiteral')) {
+		return { value: attr.value.map((v) => v.value).join('') };
+	}
+	if (attr.value.length === 1 && attr.value[0].type === 'SvelteMustacheTag') {
+		return getExpressionLiteral(tools, attr.value[0].expression);
+	}
+	return undefined;
+}
+
+/**
+ * Gets the literal value of the given expression from its type.
+ */
+function getExpressionLiteral(
+	tools: TSTools,
+	expression: AST.SvelteMustacheTag['expression']
+): PassedProp['value'] | undefined {
+	const tsNode = tools.service.esTreeNodeToTSNodeMap.get(expression);
+	if (!tsNode) {
+		return undefined;
+	}
+	const { ts } = tools;
+	const type = tools.service.program.getTypeChecker().getTypeAtLocation(tsNode);
+	if (type.isStringLiteral() || type.isNumberLiteral()) {
+		return { value: type.value };
+	}
+	if (type.flags & ts.TypeFlags.BooleanLiteral) {
+		return { value: tools.service.program.getTypeChecker().typeToString(type) === 'true' };
+	}
+	if (type.flags & ts.TypeFlags.Null) {
+		return { value: null };
+	}
+	if (type.flags & ts.TypeFlags.Undefined) {
+		return { value: undefined };
+	}
+	return undefined;
+}
+
+/**
+ * Checks whether the value is accepted.
+ */
+function isAccepted(accepted: AcceptedValues, value: LiteralValue, required: boolean): boolean {
+	if (value === undefined && !required) {
+		return true;
+	}
+	return accepted.kinds.has(getKind(value)) || accepted.literals.has(value);
+}
+
+/**
+ * Gets the kind of the given literal value.
+ */
+function getKind(value: LiteralValue): string {
+	return value === null ? 'null' : typeof value;
+}
+
+/**
+ * Gets the values accepted by the given type node.
+ * Returns `null` if the type cannot be analyzed or accepts any value.
+ */
+function getAcceptedValues(
+	ts: TypeScript,
+	definition: ComponentDefinition,
+	typeNode: TS.TypeNode,
+	visited: Set<TS.Node>
+): AcceptedValues | null {
+	if (visited.has(typeNode)) {
+		return null;
+	}
+	visited.add(typeNode);
+	const result: AcceptedValues = { kinds: new Set(), literals: new Set() };
+	switch (typeNode.kind) {
+		case ts.SyntaxKind.StringKeyword:
+		case ts.SyntaxKind.TemplateLiteralType:
+			result.kinds.add('string');
+			return result;
+		case ts.SyntaxKind.NumberKeyword:
+			result.kinds.add('number');
+			return result;
+		case ts.SyntaxKind.BooleanKeyword:
+			result.kinds.add('boolean');
+			return result;
+		case ts.SyntaxKind.UndefinedKeyword:
+		case ts.SyntaxKind.VoidKeyword:
+			result.kinds.add('undefined');
+			return result;
+		case ts.SyntaxKind.NullKeyword:
+			result.kinds.add('null');
+			return result;
+		case ts.SyntaxKind.NeverKeyword:
+			return result;
+		case ts.SyntaxKind.ObjectKeyword:
+		case ts.SyntaxKind.FunctionType:
+		case ts.SyntaxKind.ConstructorType:
+		case ts.SyntaxKind.ArrayType:
+		case ts.SyntaxKind.TupleType:
+		case ts.SyntaxKind.TypeLiteral:
+			result.kinds.add('object');
+			return result;
+		default:
+			break;
+	}
+	if (ts.isParenthesizedTypeNode(typeNode)) {
+		return getAcceptedValues(ts, definition, typeNode.type, visited);
+	}
+	if (ts.isLiteralTypeNode(typeNode)) {
+		const literal = typeNode.literal;
+		if (ts.isStringLiteral(literal) || ts.isNoSubstitutionTemplateLiteral(literal)) {
+			result.literals.add(literal.text);
+		} else if (ts.isNumericLiteral(literal)) {
+			result.literals.add(Number(literal.text));
+		} else if (
+			ts.isPrefixUnaryExpression(literal) &&
+			literal.operator === ts.SyntaxKind.MinusToken &&
+			ts.isNumericLiteral(literal.operand)
+		) {
+			result.literals.add(-Number(literal.operand.text));
+		} else if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+			result.literals.add(true);
+		} else if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+			result.literals.add(false);
+		} else if (literal.kind === ts.SyntaxKind.NullKeyword) {
+			result.kinds.add('null');
+		} else {
+			return null;
+		}
+		return result;
+	}
+	if (ts.isUnionTypeNode(typeNode)) {
+		for (const type of typeNode.types) {
+			const accepted = getAcceptedValues(ts, definition, type, visited);
+			if (!accepted) {
+				return null;
+			}
+			accepted.kinds.forEach((kind) => result.kinds.add(kind));
+			accepted.literals.forEach((literal) => result.literals.add(literal));
+		}
+		return result;
+	}
+	if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+		const declaration = findTypeDeclaration(ts, definition, typeNode.typeName.text);
+		if (declaration) {
+			if (ts.isTypeAliasDeclaration(declaration)) {
+				return getAcceptedValues(ts, definition, declaration.type, visited);
+			}
+			result.kinds.add('object');
+			return result;
+		}
+		if (OBJECT_TYPE_NAMES.has(typeNode.typeName.text)) {
+			result.kinds.add('object');
+			return result;
+		}
+	}
+	return null;
+}
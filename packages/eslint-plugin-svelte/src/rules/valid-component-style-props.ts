@@ -0,0 +1,152 @@
+import type { AST } from 'svelte-eslint-parser';
+import { traverseNodes } from 'svelte-eslint-parser';
+import { createRule } from '../utils/index.js';
+import { toRegExp } from '../utils/regexp.js';
+import { getSourceCode } from '../utils/compat.js';
+import { resolveComponentPath } from '../utils/component-resolver.js';
+import { getComponentStyleProps, getUsedCustomProperties } from '../utils/component-graph.js';
+import type { ComponentStyleProps } from '../utils/component-graph.js';
+
+export default createRule('valid-component-style-props', {
+	meta: {
+		docs: {
+			description:
+				'disallow `--style-props` that are not read by the child component, and require the ones it needs',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					checkUnknownStyleProps: {
+						type: 'boolean'
+					},
+					checkMissingStyleProps: {
+						type: 'boolean'
+					},
+					ignoreStyleProps: {
+						type: 'array',
+						items: {
+							type: 'string'
+						},
+						uniqueItems: true
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			unknownStyleProp: "'{{name}}' is not read by '{{component}}' or the components it renders.",
+			missingStyleProp:
+				"'{{component}}' reads the custom property '{{name}}' without a fallback, but it is not passed."
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const checkUnknownStyleProps = context.options[0]?.checkUnknownStyleProps ?? true;
+		const checkMissingStyleProps = context.options[0]?.checkMissingStyleProps ?? false;
+		const ignoreStyleProps = [...(context.options[0]?.ignoreStyleProps ?? [])].map(toRegExp);
+		let usedInThisFile: Set<string> | null | undefined;
+
+		/**
+		 * Checks whether the given custom property is ignored.
+		 */
+		function isIgnored(name: string) {
+			return ignoreStyleProps.some((r) => r.test(name));
+		}
+
+		/**
+		 * Gets the custom properties read by the contents of the given component element.
+		 * The contents also inherit the custom properties passed to the component.
+		 */
+		function getContentsStyleProps(node: AST.SvelteComponentElement): ComponentStyleProps {
+			const result: ComponentStyleProps = { used: new Set(), required: new Set(), closed: true };
+			for (const child of node.children) {
+				if (child.type === 'SvelteText' && !child.value.trim()) {
+					continue;
+				}
+				if (usedInThisFile === undefined) {
+					usedInThisFile = getUsedCustomProperties(
+						sourceCode.ast,
+						sourceCode.visitorKeys,
+						sourceCode.parserServices.getStyleContext!()
+					);
+				}
+				if (!usedInThisFile) {
+					result.closed = false;
+					return result;
+				}
+				usedInThisFile.forEach((name) => result.used.add(name));
+				traverseNodes(child, {
+					enterNode(n) {
+						if (n.type !== 'SvelteElement' || n.kind !== 'component') {
+							return;
+						}
+						const filePath = resolveComponentPath(context, n);
+						const styleProps = filePath ? getComponentStyleProps(context, filePath) : null;
+						if (!styleProps) {
+							result.closed = false;
+							return;
+						}
+						styleProps.used.forEach((name) => result.used.add(name));
+						result.closed &&= styleProps.closed;
+					},
+					leaveNode() {
+						/* noop */
+					}
+				});
+			}
+			return result;
+		}
+
+		return {
+			'SvelteElement[kind="component"]'(node: AST.SvelteComponentElement) {
+				const filePath = resolveComponentPath(context, node);
+				const styleProps = filePath ? getComponentStyleProps(context, filePath) : null;
+				if (!styleProps) {
+					return;
+				}
+				const component = node.name.type === 'Identifier' ? node.name.name : '';
+				const passed: AST.SvelteAttribute[] = [];
+				let hasSpread = false;
+				for (const attr of node.startTag.attributes) {
+					if (attr.type === 'SvelteSpreadAttribute') {
+						hasSpread = true;
+					} else if (attr.type === 'SvelteAttribute' && attr.key.name.startsWith('--')) {
+						passed.push(attr);
+					}
+				}
+
+				if (checkUnknownStyleProps && passed.length && styleProps.closed) {
+					const contents = getContentsStyleProps(node);
+					if (contents.closed) {
+						for (const attr of passed) {
+							const name = attr.key.name;
+							if (!styleProps.used.has(name) && !contents.used.has(name) && !isIgnored(name)) {
+								context.report({
+									node: attr.key,
+									messageId: 'unknownStyleProp',
+									data: { name, component }
+								});
+							}
+						}
+					}
+				}
+				if (checkMissingStyleProps && !hasSpread) {
+					const names = new Set(passed.map((attr) => attr.key.name));
+					for (const name of styleProps.required) {
+						if (!names.has(name) && !isIgnored(name)) {
+							context.report({
+								node: node.startTag,
+								messageId: 'missingStyleProp',
+								data: { name, component }
+							});
+						}
+					}
+				}
+			}
+		};
+	}
+});
@@ -0,0 +1,309 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import fs from 'fs';
+import path from 'path';
+import { createRule } from '../utils/index.js';
+import { getFilename } from '../utils/compat.js';
+import { findVariable } from '../utils/ast-utils.js';
+import { getSvelteKitRoutesDir } from '../utils/svelte-context.js';
+import { getTypeScriptTools } from '../utils/ts-utils/index.js';
+import type { TSTools } from '../utils/ts-utils/index.js';
+
+type DataUsage = {
+	/** The properties read from `data`. */
+	properties: { name: string; node: TSESTree.Node }[];
+	/** Whether `data` is used in a way that cannot be statically analyzed, e.g. `{...data}`. */
+	unknown: boolean;
+};
+
+type LoadData = {
+	/** The keys returned by the `load` function. `null` if they cannot be determined. */
+	keys: Set<string> | null;
+	fileName: string;
+};
+
+/**
+ * Checks whether the given path is in the given directory.
+ */
+function isInDirectory(filePath: string, dir: string): boolean {
+	return filePath === dir || filePath.startsWith(`${dir}${path.sep}`);
+}
+
+/**
+ * Gets the data of the `load` function that provides the data for the given route file,
+ * e.g. the `load` of `+page.ts` or `+page.server.ts` for `+page`.
+ * The universal `load` takes precedence since it decides what the page receives.
+ * Files without `load`, e.g. `+page.ts` that only exports `ssr`, do not provide any data.
+ */
+function findLoadData(dir: string, baseName: '+page' | '+layout', tools: TSTools): LoadData | null {
+	for (const suffix of ['.ts', '.js', '.server.ts', '.server.js']) {
+		const fileName = path.join(dir, `${baseName}${suffix}`);
+		if (!fs.existsSync(fileName)) {
+			continue;
+		}
+		const data = getLoadData(fileName, tools);
+		if (data) {
+			return data;
+		}
+	}
+	return null;
+}
+
+/**
+ * Gets the keys of the object returned by the `load` function exported from the given file.
+ * Returns `null` if the file does not export `load`.
+ */
+function getLoadData(fileName: string, tools: TSTools): LoadData | null {
+	const { ts } = tools;
+	const { program } = tools.service;
+	const checker = program.getTypeChecker();
+	const sourceFile = program.getSourceFile(fileName);
+	const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+	if (!sourceFile || !moduleSymbol) {
+		return { keys: null, fileName };
+	}
+	const load = checker.getExportsOfModule(moduleSymbol).find((symbol) => symbol.name === 'load');
+	if (!load) {
+		return null;
+	}
+	const signatures = checker.getTypeOfSymbolAtLocation(load, sourceFile).getCallSignatures();
+	if (signatures.length === 0) {
+		return { keys: null, fileName };
+	}
+	const keys = new Set<string>();
+	for (const signature of signatures) {
+		const returnType = signature.getReturnType();
+		const awaited = checker.getAwaitedType(returnType) ?? returnType;
+		for (const type of awaited.isUnion() ? awaited.types : [awaited]) {
+			if ((type.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void | ts.TypeFlags.Null)) !== 0) {
+				continue;
+			}
+			if (
+				(type.flags & ts.TypeFlags.Object) === 0 ||
+				checker.getIndexInfoOfType(type, ts.IndexKind.String)
+			) {
+				// e.g. `any`, `Record<string, unknown>`
+				return { keys: null, fileName };
+			}
+			for (const property of checker.getPropertiesOfType(type)) {
+				keys.add(property.getName());
+			}
+		}
+	}
+	return { keys, fileName };
+}
+
+/**
+ * Gets the static name of the given property key.
+ */
+function getStaticKeyName(
+	key: TSESTree.Expression | TSESTree.PrivateIdentifier,
+	computed: boolean
+): string | null {
+	if (!computed && key.type === 'Identifier') {
+		return key.name;
+	}
+	if (key.type === 'Literal' && typeof key.value === 'string') {
+		return key.value;
+	}
+	return null;
+}
+
+/**
+ * Collects the properties read through the given pattern that destructures `data`.
+ */
+function collectPatternUsage(pattern: TSESTree.Node, usage: DataUsage) {
+	if (pattern.type !== 'ObjectPattern') {
+		usage.unknown = true;
+		return;
+	}
+	for (const property of pattern.properties) {
+		if (property.type === 'RestElement') {
+			usage.unknown = true;
+			continue;
+		}
+		const name = getStaticKeyName(property.key, property.computed);
+		if (name == null) {
+			usage.unknown = true;
+			continue;
+		}
+		usage.properties.push({ name, node: property.key });
+	}
+}
+
+/**
+ * Checks whether the given node is `$derived(data)`.
+ */
+function isDerivedCall(node: TSESTree.Node | undefined): node is TSESTree.CallExpression {
+	return (
+		node?.type === 'CallExpression' &&
+		node.callee.type === 'Identifier' &&
+		node.callee.name === '$derived' &&
+		node.arguments.length === 1
+	);
+}
+
+/**
+ * Collects the properties read from the given `data` variable.
+ */
+function collectVariableUsage(variable: Variable, usage: DataUsage) {
+	for (const reference of variable.references) {
+		const id = reference.identifier as TSESTree.Identifier;
+		if (reference.init || variable.defs.some((def) => def.name.range[0] === id.range[0])) {
+			continue;
+		}
+		const parent = isDerivedCall(id.parent) ? id.parent.parent : id.parent;
+		if (parent?.type === 'MemberExpression' && parent.object === id) {
+			const name = getStaticKeyName(parent.property, parent.computed);
+			if (name == null) {
+				usage.unknown = true;
+			} else {
+				usage.properties.push({ name, node: parent.property });
+			}
+		} else if (parent?.type === 'VariableDeclarator') {
+			// e.g. `const { foo } = data`, `const { foo } = $derived(data)`
+			collectPatternUsage(parent.id, usage);
+		} else if (parent?.type === 'AssignmentExpression' && parent.right === id) {
+			// e.g. `$: ({ foo } = data)`
+			collectPatternUsage(parent.left, usage);
+		} else if (reference.isRead()) {
+			usage.unknown = true;
+		}
+	}
+}
+
+export default createRule('valid-load-data-in-kit-pages', {
+	meta: {
+		docs: {
+			description:
+				'disallow reading `data` properties that the `load` functions do not return, and returning properties the page does not read',
+			category: 'SvelteKit',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					checkUnusedProperties: {
+						type: 'boolean'
+					}
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			missingProperty: "'{{name}}' is not returned by any `load` function of this page.",
+			unusedProperty: "'{{name}}' is returned by `load` in '{{file}}' but never read by the page."
+		},
+		type: 'problem',
+		conditions: [
+			{
+				svelteKitFileTypes: ['+page.svelte']
+			}
+		]
+	},
+	create(context) {
+		const tools = getTypeScriptTools(context);
+		if (!tools) {
+			return {};
+		}
+		const checkUnusedProperties = context.options[0]?.checkUnusedProperties ?? false;
+		const usage: DataUsage = { properties: [], unknown: false };
+		let dataNode: TSESTree.Node | null = null;
+
+		/**
+		 * Verify the collected usage against the `load` functions.
+		 */
+		function verify(tools: TSTools) {
+			if (!dataNode) {
+				return;
+			}
+			const pageDir = path.dirname(getFilename(context));
+			const pageData = findLoadData(pageDir, '+page', tools);
+			const layoutData: LoadData[] = [];
+			const routesDir = getSvelteKitRoutesDir(context);
+			let dir = pageDir;
+			while (isInDirectory(dir, routesDir)) {
+				const data = findLoadData(dir, '+layout', tools);
+				if (data) {
+					layoutData.push(data);
+				}
+				const parentDir = path.dirname(dir);
+				if (parentDir === dir) break;
+				dir = parentDir;
+			}
+			if (!pageData && layoutData.length === 0) {
+				// No `load` function. The data may come from somewhere we cannot see.
+				return;
+			}
+			const allData = pageData ? [pageData, ...layoutData] : layoutData;
+			if (allData.every(({ keys }) => keys != null)) {
+				const returnedKeys = new Set(allData.flatMap(({ keys }) => [...keys!]));
+				for (const { name, node } of usage.properties) {
+					if (!returnedKeys.has(name)) {
+						context.report({
+							node,
+							messageId: 'missingProperty',
+							data: { name }
+						});
+					}
+				}
+			}
+			if (!checkUnusedProperties || usage.unknown || !pageData?.keys) {
+				return;
+			}
+			const readKeys = new Set(usage.properties.map(({ name }) => name));
+			for (const key of pageData.keys) {
+				if (!readKeys.has(key)) {
+					context.report({
+						node: dataNode,
+						messageId: 'unusedProperty',
+						data: { name: key, file: path.basename(pageData.fileName) }
+					});
+				}
+			}
+		}
+
+		return {
+			// Svelte 5: `let { data } = $props()`
+			'VariableDeclarator[init.type="CallExpression"][init.callee.name="$props"]'(
+				node: TSESTree.VariableDeclarator
+			) {
+				if (node.id.type !== 'ObjectPattern') {
+					return;
+				}
+				for (const property of node.id.properties) {
+					if (
+						property.type !== 'Property' ||
+						getStaticKeyName(property.key, property.computed) !== 'data'
+					) {
+						continue;
+					}
+					dataNode = property;
+					const value =
+						property.value.type === 'AssignmentPattern' ? property.value.left : property.value;
+					if (value.type === 'Identifier') {
+						const variable = findVariable(context, value);
+						if (variable) collectVariableUsage(variable, usage);
+					} else {
+						collectPatternUsage(value, usage);
+					}
+				}
+			},
+			// Svelte 3/4: `export let data`
+			'ExportNamedDeclaration > VariableDeclaration > VariableDeclarator'(
+				node: TSESTree.VariableDeclarator
+			) {
+				if (node.id.type !== 'Identifier' || node.id.name !== 'data') {
+					return;
+				}
+				dataNode = node.id;
+				const variable = findVariable(context, node.id);
+				if (variable) collectVariableUsage(variable, usage);
+			},
+			'Program:exit'() {
+				verify(tools);
+			}
+		};
+	}
+});
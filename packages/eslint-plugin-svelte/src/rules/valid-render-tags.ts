@@ -0,0 +1,288 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Variable } from '@typescript-eslint/scope-manager';
+import { createRule } from '../utils/index.js';
+import { findVariable } from '../utils/ast-utils.js';
+import { getToplevelScope } from './reference-helpers/reactive-statement.js';
+
+type SnippetSignature = {
+	minArgs: number;
+	maxArgs: number;
+	/** `true` if the snippet may be `undefined`. */
+	optional: boolean;
+};
+
+/** The types that make a prop possibly undefined. */
+const NULLISH_TYPES = ['TSUndefinedKeyword', 'TSNullKeyword', 'TSVoidKeyword'];
+
+/**
+ * Gets the signature of the given `{#snippet}` block.
+ */
+function getSnippetBlockSignature(node: AST.SvelteSnippetBlock): SnippetSignature {
+	const minArgs = node.params.filter((param) => param.type !== 'AssignmentPattern').length;
+	return { minArgs, maxArgs: node.params.length, optional: false };
+}
+
+/**
+ * Gets the number of the arguments that the given `Snippet` type accepts.
+ */
+function getSnippetTypeArgs(
+	node: TSESTree.TSTypeReference
+): Pick<SnippetSignature, 'minArgs' | 'maxArgs'> | null {
+	const parameters = node.typeArguments?.params[0];
+	if (!parameters) {
+		return { minArgs: 0, maxArgs: 0 };
+	}
+	if (parameters.type !== 'TSTupleType') {
+		return null;
+	}
+	let minArgs = 0;
+	let maxArgs = 0;
+	for (const element of parameters.elementTypes) {
+		const named = element.type === 'TSNamedTupleMember';
+		const type = named ? element.elementType : element;
+		if (type.type === 'TSRestType') {
+			maxArgs = Infinity;
+		} else if (type.type === 'TSOptionalType' || (named && element.optional)) {
+			maxArgs++;
+		} else {
+			minArgs++;
+			maxArgs++;
+		}
+	}
+	return { minArgs, maxArgs };
+}
+
+/**
+ * Formats the expected number of the arguments.
+ */
+function formatExpectedArgs({ minArgs, maxArgs }: SnippetSignature): string {
+	if (minArgs === maxArgs) {
+		return String(minArgs);
+	}
+	return maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs}-${maxArgs}`;
+}
+
+/**
+ * Checks whether the given expression is truthy only if the given variable is truthy.
+ */
+function isGuardedBy(expression: TSESTree.Expression, name: string): boolean {
+	if (expression.type === 'Identifier') {
+		return expression.name === name;
+	}
+	if (expression.type === 'LogicalExpression' && expression.operator === '&&') {
+		return isGuardedBy(expression.left, name) || isGuardedBy(expression.right, name);
+	}
+	return false;
+}
+
+export default createRule('valid-render-tags', {
+	meta: {
+		docs: {
+			description:
+				'disallow `{@render}` tags that do not match the snippet signatures, and unused snippets',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [],
+		messages: {
+			wrongArgumentCount:
+				"The snippet '{{name}}' expects {{expected}} argument(s), but got {{actual}}.",
+			possiblyUndefined:
+				"The snippet '{{name}}' may be undefined. Use '{{name}}?.()' or check it with '{#if}'.",
+			unusedSnippet: "The snippet '{{name}}' is declared but never rendered or passed."
+		},
+		type: 'problem',
+		conditions: [
+			{
+				svelteVersions: ['5']
+			}
+		]
+	},
+	create(context) {
+		const snippetBlocks: AST.SvelteSnippetBlock[] = [];
+
+		/**
+		 * Gets the members of the type of the given `$props()` declarator.
+		 */
+		function getPropsTypeMembers(
+			declarator: TSESTree.VariableDeclarator
+		): TSESTree.TypeElement[] | null {
+			const type = declarator.id.typeAnnotation?.typeAnnotation;
+			if (type?.type === 'TSTypeLiteral') {
+				return type.members;
+			}
+			if (type?.type !== 'TSTypeReference' || type.typeName.type !== 'Identifier') {
+				return null;
+			}
+			const def = getToplevelScope(context)?.set.get(type.typeName.name)?.defs[0];
+			if (def?.node.type === 'TSInterfaceDeclaration') {
+				return def.node.body.body;
+			}
+			if (
+				def?.node.type === 'TSTypeAliasDeclaration' &&
+				def.node.typeAnnotation.type === 'TSTypeLiteral'
+			) {
+				return def.node.typeAnnotation.members;
+			}
+			return null;
+		}
+
+		/**
+		 * Checks whether the given type refers to the `Snippet` type of `svelte`.
+		 */
+		function isSnippetType(node: TSESTree.TypeNode): node is TSESTree.TSTypeReference {
+			if (node.type !== 'TSTypeReference' || node.typeName.type !== 'Identifier') {
+				return false;
+			}
+			const def = getToplevelScope(context)?.set.get(node.typeName.name)?.defs[0];
+			return (
+				def?.type === 'ImportBinding' &&
+				def.node.type === 'ImportSpecifier' &&
+				def.node.imported.type === 'Identifier' &&
+				def.node.imported.name === 'Snippet' &&
+				def.parent.type === 'ImportDeclaration' &&
+				def.parent.source.value === 'svelte'
+			);
+		}
+
+		/**
+		 * Gets the signature of the snippet prop declared by the given variable.
+		 */
+		function getSnippetPropSignature(variable: Variable): SnippetSignature | null {
+			const def = variable.defs[0];
+			if (
+				def?.type !== 'Variable' ||
+				def.node.init?.type !== 'CallExpression' ||
+				def.node.init.callee.type !== 'Identifier' ||
+				def.node.init.callee.name !== '$props' ||
+				def.node.id.type !== 'ObjectPattern'
+			) {
+				return null;
+			}
+			const property = def.node.id.properties.find(
+				(p): p is TSESTree.Property =>
+					p.type === 'Property' &&
+					(p.value === def.name ||
+						(p.value.type === 'AssignmentPattern' && p.value.left === def.name))
+			);
+			if (!property || property.computed || property.key.type !== 'Identifier') {
+				return null;
+			}
+			const propName = property.key.name;
+			const member = getPropsTypeMembers(def.node)?.find(
+				(m): m is TSESTree.TSPropertySignature =>
+					m.type === 'TSPropertySignature' &&
+					!m.computed &&
+					m.key.type === 'Identifier' &&
+					m.key.name === propName
+			);
+			const type = member?.typeAnnotation?.typeAnnotation;
+			if (!member || !type) {
+				return null;
+			}
+			let optional = Boolean(member.optional);
+			let snippetType: TSESTree.TSTypeReference | null = null;
+			for (const t of type.type === 'TSUnionType' ? type.types : [type]) {
+				if (NULLISH_TYPES.includes(t.type)) {
+					optional = true;
+				} else if (isSnippetType(t) && !snippetType) {
+					snippetType = t;
+				} else {
+					return null;
+				}
+			}
+			const args = snippetType && getSnippetTypeArgs(snippetType);
+			if (!args) {
+				return null;
+			}
+			// The default value is used when the prop is not passed.
+			return { ...args, optional: optional && property.value.type !== 'AssignmentPattern' };
+		}
+
+		/**
+		 * Checks whether the given render tag is in an `{#if}` block that checks the given name.
+		 */
+		function isInGuard(node: AST.SvelteRenderTag, name: string): boolean {
+			let child: AST.SvelteHTMLNode | TSESTree.Node = node;
+			let parent = node.parent as AST.SvelteHTMLNode | TSESTree.Node | null;
+			while (parent) {
+				if (
+					parent.type === 'SvelteIfBlock' &&
+					(parent.children as unknown[]).includes(child) &&
+					isGuardedBy(parent.expression, name)
+				) {
+					return true;
+				}
+				child = parent;
+				parent = (parent as { parent?: AST.SvelteHTMLNode | TSESTree.Node | null }).parent ?? null;
+			}
+			return false;
+		}
+
+		return {
+			SvelteSnippetBlock(node: AST.SvelteSnippetBlock) {
+				snippetBlocks.push(node);
+			},
+			SvelteRenderTag(node: AST.SvelteRenderTag) {
+				const chain = node.expression.type === 'ChainExpression';
+				const call =
+					node.expression.type === 'ChainExpression' ? node.expression.expression : node.expression;
+				const callee = call.callee as TSESTree.Node;
+				if (callee.type !== 'Identifier') {
+					return;
+				}
+				const variable = findVariable(context, callee);
+				const def = variable?.defs[0];
+				if (!variable || !def) {
+					return;
+				}
+				const signature =
+					(def.node.type as string) === 'SvelteSnippetBlock'
+						? getSnippetBlockSignature(def.node as unknown as AST.SvelteSnippetBlock)
+						: getSnippetPropSignature(variable);
+				if (!signature) {
+					return;
+				}
+				const args = call.arguments as TSESTree.CallExpressionArgument[];
+				if (
+					!args.some((arg) => arg.type === 'SpreadElement') &&
+					(args.length < signature.minArgs || signature.maxArgs < args.length)
+				) {
+					context.report({
+						node: call,
+						messageId: 'wrongArgumentCount',
+						data: {
+							name: callee.name,
+							expected: formatExpectedArgs(signature),
+							actual: String(args.length)
+						}
+					});
+				}
+				if (signature.optional && !(chain && call.optional) && !isInGuard(node, callee.name)) {
+					context.report({
+						node: callee,
+						messageId: 'possiblyUndefined',
+						data: { name: callee.name }
+					});
+				}
+			},
+			'Program:exit'() {
+				for (const node of snippetBlocks) {
+					// Snippets in components are passed as props.
+					if (node.parent.type === 'SvelteElement' && node.parent.kind !== 'html') {
+						continue;
+					}
+					const variable = findVariable(context, node.id);
+					if (variable && variable.references.length === 0) {
+						context.report({
+							node: node.id,
+							messageId: 'unusedSnippet',
+							data: { name: node.id.name }
+						});
+					}
+				}
+			}
+		};
+	}
+});
@@ -0,0 +1,195 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { AnyNode, Declaration } from 'postcss';
+import { all as allKnownCSSProperties } from 'known-css-properties';
+import { createRule } from '../utils/index.js';
+import { toRegExp } from '../utils/regexp.js';
+import {
+	getVendorPrefix,
+	isValidPropertyValue,
+	KNOWN_VENDOR_PREFIXES,
+	parseStyleAttributeValue
+} from '../utils/css-utils/index.js';
+import type { SvelteStyleInterpolation, SvelteStyleRoot } from '../utils/css-utils/index.js';
+import { getSourceCode } from '../utils/compat.js';
+
+export default createRule('valid-style-properties', {
+	meta: {
+		docs: {
+			description: 'disallow unknown CSS properties and invalid CSS values',
+			category: 'Possible Errors',
+			recommended: false
+		},
+		schema: [
+			{
+				type: 'object',
+				properties: {
+					ignoreProperties: {
+						type: 'array',
+						items: {
+							type: 'string'
+						},
+						uniqueItems: true,
+						minItems: 1
+					},
+					ignorePrefixed: { type: 'boolean' },
+					checkValues: { type: 'boolean' }
+				},
+				additionalProperties: false
+			}
+		],
+		messages: {
+			unknownProperty: "Unexpected unknown property '{{property}}'.",
+			unknownVendorPrefix: "Unexpected unknown vendor prefix '{{prefix}}' in '{{property}}'.",
+			invalidValue: "Unexpected invalid value '{{value}}' for property '{{property}}'."
+		},
+		type: 'problem'
+	},
+	create(context) {
+		const sourceCode = getSourceCode(context);
+		const ignoreProperties = [...(context.options[0]?.ignoreProperties ?? [])].map(toRegExp);
+		const ignorePrefixed: boolean = context.options[0]?.ignorePrefixed ?? true;
+		const checkValues: boolean = context.options[0]?.checkValues ?? true;
+		const knownProperties = new Set<string>(allKnownCSSProperties);
+
+		/**
+		 * Verify the given property name.
+		 * Returns `false` if the property is reported.
+		 */
+		function verifyProperty(name: string, loc: AST.SourceLocation): boolean {
+			if (name.startsWith('--') || ignoreProperties.some((r) => r.test(name))) {
+				return true;
+			}
+			const property = name.toLowerCase();
+			const prefix = getVendorPrefix(property);
+			if (prefix && !KNOWN_VENDOR_PREFIXES.includes(prefix)) {
+				context.report({
+					loc,
+					messageId: 'unknownVendorPrefix',
+					data: { prefix, property: name }
+				});
+				return false;
+			}
+			if (knownProperties.has(property) || (prefix && ignorePrefixed)) {
+				return true;
+			}
+			context.report({
+				loc,
+				messageId: 'unknownProperty',
+				data: { property: name }
+			});
+			return false;
+		}
+
+		/**
+		 * Verify the given property and value.
+		 */
+		function verifyDeclaration(
+			property: { name: string; loc: AST.SourceLocation },
+			value: { value: string; loc: AST.SourceLocation } | null
+		) {
+			if (!verifyProperty(property.name, property.loc) || !checkValues || !value) {
+				return;
+			}
+			if (!isValidPropertyValue(property.name, value.value)) {
+				context.report({
+					loc: value.loc,
+					messageId: 'invalidValue',
+					data: { value: value.value.trim(), property: property.name }
+				});
+			}
+		}
+
+		/**
+		 * Verify the declarations in the given style attribute.
+		 */
+		function verifyStyleRoot<E extends SvelteStyleInterpolation>(root: SvelteStyleRoot<E>) {
+			for (const child of root.nodes) {
+				if (child.type === 'decl') {
+					if (child.prop.interpolations.length) {
+						continue;
+					}
+					verifyDeclaration(
+						child.prop,
+						child.value.interpolations.length || child.unknownInterpolations.length
+							? null
+							: child.value
+					);
+				} else if (child.type === 'inline') {
+					for (const inlineRoot of child.getAllInlineStyles().values()) {
+						verifyStyleRoot(inlineRoot);
+					}
+				}
+			}
+		}
+
+		/**
+		 * Verify the declarations in the given node of the `<style>` element.
+		 */
+		function verifyStyleNode(node: AnyNode) {
+			if (node.type === 'decl') {
+				verifyStyleElementDeclaration(node);
+			} else if (node.type !== 'comment') {
+				node.nodes?.forEach(verifyStyleNode);
+			}
+		}
+
+		/**
+		 * Verify the given declaration in the `<style>` element.
+		 */
+		function verifyStyleElementDeclaration(node: Declaration) {
+			const start = node.source?.start?.offset;
+			// Skip the interpolations and variables of preprocessors.
+			if (start == null || /[#$@{]/u.test(node.prop)) {
+				return;
+			}
+			const valueStart = start + node.prop.length + node.raws.between!.length;
+			const value: string = (node.raws.value as { raw?: string } | undefined)?.raw ?? node.value;
+			verifyDeclaration(
+				{ name: node.prop, loc: getLoc(start, start + node.prop.length) },
+				{ value, loc: getLoc(valueStart, valueStart + value.length) }
+			);
+		}
+
+		/**
+		 * Gets the location of the given range.
+		 */
+		function getLoc(start: number, end: number): AST.SourceLocation {
+			return {
+				start: sourceCode.getLocFromIndex(start),
+				end: sourceCode.getLocFromIndex(end)
+			};
+		}
+
+		return {
+			SvelteAttribute(node: AST.SvelteAttribute) {
+				if (node.key.name !== 'style') {
+					return;
+				}
+				const root = parseStyleAttributeValue(node, context);
+				if (root) {
+					verifyStyleRoot(root);
+				}
+			},
+			SvelteStyleDirective(node: AST.SvelteStyleDirective) {
+				const prop = node.key.name;
+				const isStatic =
+					!node.shorthand && node.value.every((value) => value.type === 'SvelteLiteral');
+				verifyDeclaration(
+					prop,
+					isStatic && node.value.length
+						? {
+								value: node.value.map((value) => sourceCode.getText(value)).join(''),
+								loc: getLoc(node.value[0].range[0], node.value[node.value.length - 1].range[1])
+							}
+						: null
+				);
+			},
+			'Program:exit'() {
+				const styleContext = sourceCode.parserServices.getStyleContext!();
+				if (styleContext.status === 'success') {
+					verifyStyleNode(styleContext.sourceAst);
+				}
+			}
+		};
+	}
+});
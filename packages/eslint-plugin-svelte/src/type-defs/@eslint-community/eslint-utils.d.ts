@@ -51,6 +51,14 @@ declare module '@eslint-community/eslint-utils' {
 		initialScope?: Scope
 	): string | null;
 
+	/**
+	 * Get the value of a given node if it's a static value.
+	 */
+	export function getStaticValue(
+		node: TSESTree.Node,
+		initialScope?: Scope | null
+	): { value: unknown } | null;
+
 	/**
 	 * Get the innermost scope which contains a given location.
 	 */
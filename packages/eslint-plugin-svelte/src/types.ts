@@ -44,6 +44,7 @@ export type RuleCategory =
 	| 'Possible Errors'
 	| 'Security Vulnerability'
 	| 'Best Practices'
+	| 'Accessibility'
 	| 'Stylistic Issues'
 	| 'Extension Rules'
 	| 'SvelteKit'
@@ -137,6 +138,13 @@ export type RuleContext = {
 			kit?: {
 				files?: {
 					routes?: string;
+					lib?: string;
+					hooks?: {
+						server?: string;
+						client?: string;
+						universal?: string;
+					};
+					serviceWorker?: string;
 				};
 			};
 		};
@@ -0,0 +1,229 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { SourceCode } from '../types.js';
+import { getNodeName, getStaticAttributeValue } from './ast-utils.js';
+
+export type A11yAttribute = {
+	node: AST.SvelteAttribute | AST.SvelteShorthandAttribute | AST.SvelteDirective;
+	/** The static value of the attribute. `null` if it is dynamic. */
+	value: string | null;
+};
+
+/** The elements that can be focused and operated by keyboard without any attributes. */
+const INTERACTIVE_ELEMENTS = [
+	'button',
+	'details',
+	'embed',
+	'iframe',
+	'label',
+	'option',
+	'select',
+	'summary',
+	'textarea'
+];
+
+/** The roles of the widgets that can be operated by keyboard. */
+const INTERACTIVE_ROLES = [
+	'button',
+	'checkbox',
+	'columnheader',
+	'combobox',
+	'gridcell',
+	'link',
+	'listbox',
+	'menuitem',
+	'menuitemcheckbox',
+	'menuitemradio',
+	'option',
+	'radio',
+	'rowheader',
+	'scrollbar',
+	'searchbox',
+	'separator',
+	'slider',
+	'spinbutton',
+	'switch',
+	'tab',
+	'textbox',
+	'treeitem'
+];
+
+/** The roles of the elements that do not depend on other attributes or on the context. */
+const IMPLICIT_ROLES: Record<string, string> = {
+	article: 'article',
+	aside: 'complementary',
+	body: 'document',
+	button: 'button',
+	datalist: 'listbox',
+	dd: 'definition',
+	details: 'group',
+	dialog: 'dialog',
+	dt: 'term',
+	fieldset: 'group',
+	figure: 'figure',
+	form: 'form',
+	h1: 'heading',
+	h2: 'heading',
+	h3: 'heading',
+	h4: 'heading',
+	h5: 'heading',
+	h6: 'heading',
+	hr: 'separator',
+	li: 'listitem',
+	main: 'main',
+	menu: 'list',
+	meter: 'meter',
+	nav: 'navigation',
+	ol: 'list',
+	optgroup: 'group',
+	option: 'option',
+	output: 'status',
+	progress: 'progressbar',
+	table: 'table',
+	tbody: 'rowgroup',
+	td: 'cell',
+	textarea: 'textbox',
+	tfoot: 'rowgroup',
+	th: 'columnheader',
+	thead: 'rowgroup',
+	tr: 'row',
+	ul: 'list'
+};
+
+const INPUT_TYPE_ROLES: Record<string, string> = {
+	button: 'button',
+	checkbox: 'checkbox',
+	email: 'textbox',
+	image: 'button',
+	number: 'spinbutton',
+	radio: 'radio',
+	range: 'slider',
+	reset: 'button',
+	search: 'searchbox',
+	submit: 'button',
+	tel: 'textbox',
+	text: 'textbox',
+	url: 'textbox'
+};
+
+/**
+ * Find the attribute from the given element, including shorthand attributes and `bind:` directives.
+ */
+export function getAttribute(element: AST.SvelteElement, name: string): A11yAttribute | null {
+	for (const attr of element.startTag.attributes) {
+		if (attr.type === 'SvelteAttribute' && attr.key.name === name) {
+			return { node: attr, value: getStaticAttributeValue(attr) };
+		}
+		if (attr.type === 'SvelteShorthandAttribute' && attr.key.name === name) {
+			return { node: attr, value: null };
+		}
+		if (attr.type === 'SvelteDirective' && attr.kind === 'Binding' && attr.key.name.name === name) {
+			return { node: attr, value: null };
+		}
+	}
+	return null;
+}
+
+/**
+ * Checks whether the given element has spread attributes, which may contain any attributes.
+ */
+export function hasSpreadAttribute(element: AST.SvelteElement): boolean {
+	return element.startTag.attributes.some((attr) => attr.type === 'SvelteSpreadAttribute');
+}
+
+/**
+ * Checks whether the given element has a handler for the given event.
+ * e.g. `on:click={handler}`, `onclick={handler}`, `{onclick}`
+ */
+export function hasEventHandler(element: AST.SvelteElement, eventName: string): boolean {
+	return element.startTag.attributes.some((attr) => {
+		if (attr.type === 'SvelteDirective') {
+			return attr.kind === 'EventHandler' && attr.key.name.name === eventName;
+		}
+		return (
+			(attr.type === 'SvelteAttribute' || attr.type === 'SvelteShorthandAttribute') &&
+			attr.key.name === `on${eventName}`
+		);
+	});
+}
+
+/**
+ * Checks whether the given element is hidden from screen readers.
+ */
+export function isHiddenFromScreenReader(element: AST.SvelteElement): boolean {
+	const name = getNodeName(element);
+	if (name === 'input' && getAttribute(element, 'type')?.value === 'hidden') {
+		return true;
+	}
+	return getAttribute(element, 'aria-hidden')?.value === 'true';
+}
+
+/**
+ * Checks whether the given element is interactive by itself.
+ */
+export function isInteractiveElement(element: AST.SvelteElement): boolean {
+	const name = getNodeName(element);
+	if (INTERACTIVE_ELEMENTS.includes(name)) {
+		return true;
+	}
+	if (name === 'a' || name === 'area') {
+		return getAttribute(element, 'href') != null;
+	}
+	if (name === 'input') {
+		return getAttribute(element, 'type')?.value !== 'hidden';
+	}
+	if (name === 'audio' || name === 'video') {
+		return getAttribute(element, 'controls') != null;
+	}
+	return false;
+}
+
+/**
+ * Checks whether the given role is a role of interactive widgets.
+ */
+export function isInteractiveRole(role: string): boolean {
+	return INTERACTIVE_ROLES.includes(role);
+}
+
+/**
+ * Gets the implicit ARIA role of the given element.
+ * Returns `null` if the element has no implicit role, or if the role cannot be determined statically.
+ */
+export function getImplicitRole(element: AST.SvelteElement): string | null {
+	const name = getNodeName(element);
+	if (name === 'a' || name === 'area') {
+		return getAttribute(element, 'href') ? 'link' : null;
+	}
+	if (name === 'input') {
+		const type = getAttribute(element, 'type');
+		if (!type) {
+			return 'textbox';
+		}
+		return type.value == null ? null : (INPUT_TYPE_ROLES[type.value] ?? null);
+	}
+	if (name === 'img') {
+		const alt = getAttribute(element, 'alt');
+		return alt && alt.value === '' ? null : 'img';
+	}
+	if (name === 'select') {
+		if (getAttribute(element, 'multiple')) {
+			return 'listbox';
+		}
+		const size = getAttribute(element, 'size');
+		if (size && size.value == null) {
+			return null;
+		}
+		return size && Number(size.value) > 1 ? 'listbox' : 'combobox';
+	}
+	return IMPLICIT_ROLES[name] ?? null;
+}
+
+/**
+ * Gets the range to remove the given attribute, including the preceding whitespace.
+ */
+export function getAttributeRemovalRange(
+	sourceCode: SourceCode,
+	node: A11yAttribute['node']
+): [number, number] {
+	const before = /\s+$/u.exec(sourceCode.text.slice(0, node.range[0]));
+	return [before ? node.range[0] - before[0].length : node.range[0], node.range[1]];
+}
@@ -293,6 +293,26 @@ export function getParent(node: TSESTree.Node): TSESTree.Node | null {
 	return (node as any).parent || null;
 }
 
+/**
+ * Gets the range of the given node including its leading indentation and the trailing line break,
+ * if the node occupies its lines alone.
+ */
+export function getLinesRange(sourceCode: SourceCode, node: TSESTree.Node): [number, number] {
+	const text = sourceCode.text;
+	let start = node.range[0];
+	while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) {
+		start--;
+	}
+	let end = node.range[1];
+	while (end < text.length && (text[end] === ' ' || text[end] === '\t')) {
+		end++;
+	}
+	if ((start === 0 || text[start - 1] === '\n') && text[end] === '\n') {
+		return [start, end + 1];
+	}
+	return node.range;
+}
+
 export type QuoteAndRange = {
 	quote: 'unquoted' | 'double' | 'single';
 	range: [number, number];
@@ -1,3 +1,5 @@
+import fs from 'fs';
+
 /**
  * Simple cache manager.
  *
@@ -61,3 +63,56 @@ export function createCache<T>(): {
 
 	return { get, set };
 }
+
+/**
+ * The cache of the values computed from files.
+ * In addition to the expiration of `createCache()`, the cached value is disposed of
+ * if the file has been modified since the value was set.
+ * @returns getter and setter for the cache.
+ */
+export function createFileCache<T>(): {
+	get: (filePath: string) => T | null;
+	set: (filePath: string, value: T) => void;
+} {
+	const cache = createCache<{ mtime: number; value: T }>();
+
+	/**
+	 * Get the cached value of the given file.
+	 * @param filePath The file path to get.
+	 * @returns The cached value or null.
+	 */
+	function get(filePath: string): T | null {
+		const entry = cache.get(filePath);
+		if (!entry || entry.mtime !== getMtime(filePath)) {
+			return null;
+		}
+		return entry.value;
+	}
+
+	/**
+	 * Set the value of the given file.
+	 * @param filePath The file path to set.
+	 * @param value The value to set.
+	 */
+	function set(filePath: string, value: T): void {
+		const mtime = getMtime(filePath);
+		if (mtime != null) {
+			cache.set(filePath, { mtime, value });
+		}
+	}
+
+	return { get, set };
+}
+
+/**
+ * Get the modification time of the given file or directory.
+ * @param filePath The file path.
+ * @returns The modification time or null if it does not exist.
+ */
+export function getMtime(filePath: string): number | null {
+	try {
+		return fs.statSync(filePath).mtimeMs;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,212 @@
+import type { AST } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import { getStaticValue } from '@eslint-community/eslint-utils';
+import type { RuleContext } from '../types.js';
+import { getScope } from './ast-utils.js';
+
+export type ClassNameList = {
+	/** The class names that can be statically determined. */
+	names: string[];
+	/** The static prefixes of partially dynamic class names, e.g. `btn-` of `btn-{size}`. */
+	prefixes: string[];
+	/** `true` if the element may have class names that cannot be statically determined. */
+	dynamic: boolean;
+};
+
+type ClassPart = string | TSESTree.Expression;
+
+/** The functions that combine class names in the same way as `clsx`. */
+const CLSX_FUNCTIONS = ['clsx', 'classnames', 'classNames', 'cn', 'cx'];
+
+/**
+ * Collects the class names of the given element.
+ * It handles `class` attributes including `clsx`-style values, `class:` directives and string concatenation.
+ */
+export function getClassNameList(context: RuleContext, element: AST.SvelteElement): ClassNameList {
+	const list: ClassNameList = { names: [], prefixes: [], dynamic: false };
+
+	/**
+	 * Collects the class names from the given parts of a class string.
+	 * The expressions in the parts are concatenated with the adjacent strings.
+	 */
+	function addParts(parts: ClassPart[]) {
+		let token: ClassPart[] = [];
+
+		/** Collects the class name from the current token. */
+		function flush() {
+			if (token.length === 0) {
+				return;
+			}
+			if (token.every((part) => typeof part === 'string')) {
+				list.names.push(token.join(''));
+			} else if (token.length === 1) {
+				addExpression(token[0] as TSESTree.Expression);
+			} else if (typeof token[0] === 'string') {
+				list.prefixes.push(token[0]);
+			} else {
+				list.dynamic = true;
+			}
+			token = [];
+		}
+
+		for (const part of parts) {
+			if (typeof part !== 'string') {
+				token.push(part);
+				continue;
+			}
+			for (const text of part.split(/(\s+)/u)) {
+				if (!text) {
+					continue;
+				}
+				if (/^\s+$/u.test(text)) {
+					flush();
+				} else {
+					token.push(text);
+				}
+			}
+		}
+		flush();
+	}
+
+	/**
+	 * Collects the parts of the given string concatenation.
+	 */
+	function getConcatenationParts(
+		node: TSESTree.Expression | TSESTree.PrivateIdentifier
+	): ClassPart[] {
+		if (node.type === 'BinaryExpression' && node.operator === '+') {
+			return [...getConcatenationParts(node.left), ...getConcatenationParts(node.right)];
+		}
+		if (node.type === 'Literal' && typeof node.value === 'string') {
+			return [node.value];
+		}
+		if (node.type === 'TemplateLiteral') {
+			return getTemplateParts(node);
+		}
+		return node.type === 'PrivateIdentifier' ? [] : [resolvePart(node)];
+	}
+
+	/**
+	 * Gets the parts of the given template literal.
+	 */
+	function getTemplateParts(node: TSESTree.TemplateLiteral): ClassPart[] {
+		const parts: ClassPart[] = [];
+		node.quasis.forEach((quasi, index) => {
+			parts.push(quasi.value.cooked ?? quasi.value.raw);
+			const expression = node.expressions[index];
+			if (expression) {
+				parts.push(resolvePart(expression));
+			}
+		});
+		return parts;
+	}
+
+	/**
+	 * Resolves the given expression to a string if its value is static.
+	 */
+	function resolvePart(node: TSESTree.Expression): ClassPart {
+		const staticValue = getStaticValue(node, getScope(context, node));
+		return typeof staticValue?.value === 'string' ? staticValue.value : node;
+	}
+
+	/**
+	 * Collects the class names from the given expression.
+	 */
+	function addExpression(node: TSESTree.Expression) {
+		switch (node.type) {
+			case 'Literal': {
+				if (typeof node.value === 'string') {
+					addParts([node.value]);
+				}
+				return;
+			}
+			case 'TemplateLiteral': {
+				addParts(getTemplateParts(node));
+				return;
+			}
+			case 'BinaryExpression': {
+				if (node.operator === '+') {
+					addParts(getConcatenationParts(node));
+				} else {
+					list.dynamic = true;
+				}
+				return;
+			}
+			case 'ConditionalExpression': {
+				addExpression(node.consequent);
+				addExpression(node.alternate);
+				return;
+			}
+			case 'LogicalExpression': {
+				if (node.operator !== '&&') {
+					addExpression(node.left);
+				}
+				addExpression(node.right);
+				return;
+			}
+			case 'ArrayExpression': {
+				for (const element of node.elements) {
+					if (element?.type === 'SpreadElement') {
+						list.dynamic = true;
+					} else if (element) {
+						addExpression(element);
+					}
+				}
+				return;
+			}
+			case 'ObjectExpression': {
+				for (const property of node.properties) {
+					if (property.type === 'SpreadElement') {
+						list.dynamic = true;
+					} else if (property.computed) {
+						addExpression(property.key);
+					} else if (property.key.type === 'Identifier') {
+						list.names.push(property.key.name);
+					} else if (property.key.type === 'Literal') {
+						addParts([String(property.key.value)]);
+					}
+				}
+				return;
+			}
+			case 'CallExpression': {
+				if (node.callee.type === 'Identifier' && CLSX_FUNCTIONS.includes(node.callee.name)) {
+					for (const argument of node.arguments) {
+						if (argument.type === 'SpreadElement') {
+							list.dynamic = true;
+						} else {
+							addExpression(argument);
+						}
+					}
+					return;
+				}
+				break;
+			}
+			default: {
+				break;
+			}
+		}
+		const staticValue = getStaticValue(node, getScope(context, node));
+		if (typeof staticValue?.value === 'string') {
+			addParts([staticValue.value]);
+		} else if (staticValue?.value == null || staticValue.value === false) {
+			list.dynamic ||= !staticValue;
+		} else {
+			list.dynamic = true;
+		}
+	}
+
+	for (const attr of element.startTag.attributes) {
+		if (attr.type === 'SvelteSpreadAttribute') {
+			list.dynamic = true;
+		} else if (attr.type === 'SvelteAttribute' && attr.key.name === 'class') {
+			addParts(
+				attr.value.map((value) => (value.type === 'SvelteLiteral' ? value.value : value.expression))
+			);
+		} else if (attr.type === 'SvelteShorthandAttribute' && attr.key.name === 'class') {
+			addExpression(attr.value);
+		} else if (attr.type === 'SvelteDirective' && attr.kind === 'Class') {
+			list.names.push(attr.key.name.name);
+		}
+	}
+	return list;
+}
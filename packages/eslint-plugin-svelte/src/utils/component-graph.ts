@@ -0,0 +1,1145 @@
+import type { AST, StyleContext } from 'svelte-eslint-parser';
+import { parseForESLint, traverseNodes } from 'svelte-eslint-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import type { Root } from 'postcss';
+import postcss from 'postcss';
+import fs from 'fs';
+import path from 'path';
+import type { RuleContext } from '../types.js';
+import type { TS, TypeScript } from './ts-utils/index.js';
+import { getSvelteKitFiles } from './svelte-context.js';
+import { createCache, createFileCache, getMtime } from './cache.js';
+import { isComponentFile, resolveSvelteImport } from './component-resolver.js';
+
+export type ComponentProp = {
+	name: string;
+	/** `true` if the prop must be passed to the component. */
+	required: boolean;
+	/** The declared type of the prop. `null` if the prop is not typed. */
+	type: TS.TypeNode | null;
+	/**
+	 * `true` if the prop can be bound, i.e. it is declared with `$bindable()` or in legacy mode.
+	 * `null` if it is unknown, e.g. the props are not destructured.
+	 */
+	bindable: boolean | null;
+};
+
+export type ComponentDefinition = {
+	filePath: string;
+	/** The source files of the `<script>` elements of the component. */
+	sourceFiles: TS.SourceFile[];
+	/** `true` if the component uses `$props()`. */
+	runes: boolean;
+	props: Map<string, ComponentProp>;
+	/**
+	 * `false` if the component may accept props other than `props`,
+	 * e.g. it uses rest props, `$$props` or a type that cannot be analyzed.
+	 */
+	closed: boolean;
+	/**
+	 * The events that the component dispatches with `createEventDispatcher()`
+	 * or forwards with `on:` directives without a handler.
+	 * `null` if the component dispatches events whose names are dynamic.
+	 */
+	events: Set<string> | null;
+	/** The props that are snippets, i.e. typed as `Snippet` or rendered with `{@render}`. */
+	snippets: Set<string>;
+	/**
+	 * The names exported by the instance script, which are the members of the component instance.
+	 * `export let` declarations of legacy components are props and are not included.
+	 */
+	exports: Set<string>;
+	/** The names exported by `<script module>`. */
+	moduleExports: Set<string>;
+};
+
+export type ModuleDefinition = {
+	filePath: string;
+	sourceFile: TS.SourceFile;
+	/** The names exported by the module. */
+	exports: Set<string>;
+	/** `false` if the module re-exports all names of other modules, e.g. `export * from './foo.js'`. */
+	closed: boolean;
+};
+
+export type ComponentStyleProps = {
+	/** The custom properties read through `var()` by the component and the components it renders. */
+	used: Set<string>;
+	/** The custom properties that the component reads without a fallback and does not declare itself. */
+	required: Set<string>;
+	/**
+	 * `false` if the component renders components that cannot be resolved,
+	 * which may read any custom property.
+	 */
+	closed: boolean;
+};
+
+/** The information of a parsed component file. */
+type ComponentFile = {
+	/** The code of the `<script>` elements. */
+	scripts: { code: string; module: boolean }[];
+	/** `true` if the component uses `$$props` or `$$restProps`. */
+	usesAllProps: boolean;
+	/** The file paths of the components that are rendered. */
+	components: string[];
+	/**
+	 * `false` if the component renders components that cannot be resolved,
+	 * or has styles that cannot be parsed.
+	 */
+	closed: boolean;
+	/** The custom properties read through `var()` by the component. */
+	usedCustomProperties: Set<string>;
+	/** The custom properties that the component reads without a fallback and does not declare itself. */
+	requiredCustomProperties: Set<string>;
+	/** `true` if the component has `<slot>` elements. */
+	hasSlots: boolean;
+	/** The props bound with `bind:` to each imported component. */
+	bindings: Map<string, Set<string>>;
+	/** The components that are imported in ways that cannot be analyzed, e.g. re-exported. */
+	openComponents: Set<string>;
+	/**
+	 * The events dispatched or forwarded by the component.
+	 * `null` if the component dispatches events whose names are dynamic.
+	 */
+	events: Set<string> | null;
+	/**
+	 * The names of the functions called by `{@render}` tags, and the arguments of the first call.
+	 * The arguments are `null` if they are not all identifiers.
+	 */
+	renderedSnippets: Map<string, string[] | null>;
+};
+
+/** The components that a file in the project uses. */
+type ConsumerEntry = {
+	mtime: number;
+	/** The props bound with `bind:` to each component. */
+	bindings: Map<string, Set<string>>;
+	/** The components that are used in ways that cannot be analyzed, e.g. re-exported. */
+	openComponents: Set<string>;
+};
+
+type DirectoryEntry = {
+	mtime: number;
+	files: string[];
+	directories: string[];
+};
+
+/** The consumers of the components in a project directory. */
+type ProjectIndex = {
+	directories: Map<string, DirectoryEntry>;
+	files: Map<string, ConsumerEntry>;
+};
+
+type VarReference = {
+	name: string;
+	hasFallback: boolean;
+	/** `true` if the reference is in the fallback of another `var()`. */
+	inFallback: boolean;
+};
+
+const VAR_OR_PAREN_RE = /var\(\s*(--[\w-]+)\s*(,?)|[()]/gu;
+const CSS_STRING_RE = /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/gu;
+const SOURCE_FILE_EXTENSIONS = ['.svelte', '.js', '.ts', '.mjs', '.mts', '.cjs', '.cts'];
+/** The directories of dependencies and build outputs, which are not searched for consumers. */
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', 'coverage'];
+
+const componentFileCache = createFileCache<ComponentFile>();
+const definitionCache = createFileCache<ComponentDefinition>();
+const moduleDefinitionCache = createFileCache<ModuleDefinition>();
+const projectIndexCache = createCache<ProjectIndex>();
+
+/**
+ * Gets the parser options to parse other components with.
+ * Type information is not needed, and creating a program for each component is expensive.
+ */
+function getParserOptions(context: RuleContext, filePath: string) {
+	const parserOptions: Record<string, unknown> = {
+		ecmaVersion: 'latest',
+		sourceType: 'module',
+		...context.parserOptions,
+		filePath
+	};
+	delete parserOptions.project;
+	delete parserOptions.projectService;
+	delete parserOptions.programs;
+	return parserOptions;
+}
+
+/**
+ * Gets the static value of the given attribute. Returns `null` if the value is dynamic.
+ */
+function getStaticValue(attr: AST.SvelteAttribute): string | null {
+	let value = '';
+	for (const part of attr.value) {
+		if (part.type !== 'SvelteLiteral') {
+			return null;
+		}
+		value += part.value;
+	}
+	return value;
+}
+
+/**
+ * Checks whether the given script is `<script module>` or `<script context="module">`.
+ */
+function isModuleScript(node: AST.SvelteScriptElement): boolean {
+	return node.startTag.attributes.some(
+		(attr) =>
+			attr.type === 'SvelteAttribute' &&
+			(attr.key.name === 'module' ||
+				(attr.key.name === 'context' && getStaticValue(attr) === 'module'))
+	);
+}
+
+/**
+ * Gets the parsed component in the given file.
+ * Returns `null` if the file cannot be read or parsed.
+ */
+function getComponentFile(context: RuleContext, filePath: string): ComponentFile | null {
+	const cached = componentFileCache.get(filePath);
+	if (cached) {
+		return cached;
+	}
+	let code: string, result: ReturnType<typeof parseForESLint>;
+	try {
+		code = fs.readFileSync(filePath, 'utf8');
+		result = parseForESLint(code, getParserOptions(context, filePath));
+	} catch {
+		return null;
+	}
+	if (!result.services.isSvelte) {
+		return null;
+	}
+	const file = collectComponentFile(
+		code,
+		filePath,
+		result.ast,
+		result.visitorKeys,
+		result.services.getStyleContext(),
+		getSvelteKitFiles(context).lib
+	);
+	componentFileCache.set(filePath, file);
+	return file;
+}
+
+/**
+ * Collects the information of the component from the given AST.
+ */
+function collectComponentFile(
+	code: string,
+	filePath: string,
+	ast: AST.SvelteProgram,
+	visitorKeys: Record<string, string[]>,
+	styleContext: StyleContext,
+	libDir: string
+): ComponentFile {
+	const file: ComponentFile = {
+		scripts: [],
+		usesAllProps: false,
+		components: [],
+		closed: true,
+		usedCustomProperties: new Set(),
+		requiredCustomProperties: new Set(),
+		hasSlots: false,
+		bindings: new Map(),
+		openComponents: new Set(),
+		events: new Set(),
+		renderedSnippets: new Map()
+	};
+	const imports = new Map<string, string>();
+	/** The local names of `createEventDispatcher` imported from `svelte`. */
+	const dispatcherFactories = new Set<string>();
+	/** The variables that hold the results of `createEventDispatcher()`. */
+	const dispatchers = new Set<string>();
+	const calls: TSESTree.CallExpression[] = [];
+	const styles = getStyleElementRoots(styleContext);
+	if (!styles) {
+		file.closed = false;
+	}
+
+	/**
+	 * Resolves the component imported from the given source.
+	 */
+	function resolveComponent(source: TSESTree.Node | null | undefined): string | null {
+		if (source?.type !== 'Literal' || typeof source.value !== 'string') {
+			return null;
+		}
+		const resolved = resolveSvelteImport(source.value, filePath, libDir);
+		return resolved && isComponentFile(resolved) ? resolved : null;
+	}
+
+	for (const node of ast.body) {
+		if (node.type !== 'SvelteScriptElement') {
+			continue;
+		}
+		file.scripts.push({
+			code: code.slice(node.startTag.range[1], node.endTag?.range[0] ?? node.range[1]),
+			module: isModuleScript(node)
+		});
+		for (const statement of node.body) {
+			if (statement.type !== 'ImportDeclaration' || statement.importKind === 'type') {
+				continue;
+			}
+			if (statement.source.value === 'svelte') {
+				for (const specifier of statement.specifiers) {
+					if (
+						specifier.type === 'ImportSpecifier' &&
+						specifier.imported.type === 'Identifier' &&
+						specifier.imported.name === 'createEventDispatcher'
+					) {
+						dispatcherFactories.add(specifier.local.name);
+					}
+				}
+				continue;
+			}
+			const componentPath = resolveComponent(statement.source);
+			if (!componentPath) {
+				continue;
+			}
+			for (const specifier of statement.specifiers) {
+				if (specifier.type === 'ImportDefaultSpecifier') {
+					imports.set(specifier.local.name, componentPath);
+				} else {
+					file.openComponents.add(componentPath);
+				}
+			}
+		}
+	}
+
+	traverseNodes(ast, {
+		visitorKeys,
+		enterNode(n) {
+			const node = n;
+			if (
+				node.type === 'ImportExpression' ||
+				node.type === 'ExportAllDeclaration' ||
+				node.type === 'ExportNamedDeclaration'
+			) {
+				const componentPath = resolveComponent(node.source);
+				if (componentPath) {
+					file.openComponents.add(componentPath);
+				}
+			} else if (
+				node.type === 'Identifier' &&
+				(node.name === '$$props' || node.name === '$$restProps')
+			) {
+				file.usesAllProps = true;
+			} else if (node.type === 'SvelteElement') {
+				collectElement(node);
+			} else if (
+				node.type === 'VariableDeclarator' &&
+				node.id.type === 'Identifier' &&
+				node.init?.type === 'CallExpression' &&
+				node.init.callee.type === 'Identifier' &&
+				dispatcherFactories.has(node.init.callee.name)
+			) {
+				dispatchers.add(node.id.name);
+			} else if (node.type === 'CallExpression') {
+				calls.push(node);
+			} else if (node.type === 'SvelteDirective' && node.kind === 'EventHandler') {
+				if (!node.expression) {
+					// e.g. `<button on:click>`
+					file.events?.add(node.key.name.name);
+				}
+			} else if (node.type === 'SvelteRenderTag') {
+				const call =
+					node.expression.type === 'ChainExpression' ? node.expression.expression : node.expression;
+				if (call.callee.type === 'Identifier' && !file.renderedSnippets.has(call.callee.name)) {
+					const args: TSESTree.CallExpressionArgument[] = call.arguments;
+					file.renderedSnippets.set(
+						call.callee.name,
+						args.every((arg) => arg.type === 'Identifier') ? args.map((arg) => arg.name) : null
+					);
+				}
+			}
+		},
+		leaveNode() {
+			/* noop */
+		}
+	});
+
+	/**
+	 * Collects the information of the given element.
+	 */
+	function collectElement(node: AST.SvelteElement) {
+		styles?.push(...getInlineStyleRoots(node));
+		if (node.kind === 'component') {
+			const componentPath = node.name.type === 'Identifier' ? imports.get(node.name.name) : null;
+			if (!componentPath) {
+				file.closed = false;
+				return;
+			}
+			file.components.push(componentPath);
+			let bindings = file.bindings.get(componentPath);
+			if (!bindings) {
+				bindings = new Set();
+				file.bindings.set(componentPath, bindings);
+			}
+			for (const attr of node.startTag.attributes) {
+				if (
+					attr.type === 'SvelteDirective' &&
+					attr.kind === 'Binding' &&
+					attr.key.name.name !== 'this'
+				) {
+					bindings.add(attr.key.name.name);
+				}
+			}
+		} else if (node.kind === 'special' && node.name.name === 'svelte:component') {
+			file.closed = false;
+		} else if (node.kind === 'html' && node.name.name === 'slot') {
+			file.hasSlots = true;
+		}
+	}
+
+	for (const call of calls) {
+		if (call.callee.type !== 'Identifier' || !dispatchers.has(call.callee.name)) {
+			continue;
+		}
+		const [name] = call.arguments;
+		if (name?.type === 'Literal' && typeof name.value === 'string') {
+			file.events?.add(name.value);
+		} else {
+			file.events = null;
+		}
+	}
+
+	if (styles) {
+		const customProperties = collectCustomProperties(styles);
+		file.usedCustomProperties = customProperties.used;
+		file.requiredCustomProperties = customProperties.required;
+	}
+	return file;
+}
+
+/**
+ * Gets the custom properties read through `var()` by the styles of the given component,
+ * i.e. the `<style>` element, `style` attributes and `style:` directives.
+ * Returns `null` if the `<style>` element cannot be parsed.
+ */
+export function getUsedCustomProperties(
+	ast: AST.SvelteProgram,
+	visitorKeys: Record<string, string[]>,
+	styleContext: StyleContext
+): Set<string> | null {
+	const styles = getStyleElementRoots(styleContext);
+	if (!styles) {
+		return null;
+	}
+	traverseNodes(ast, {
+		visitorKeys,
+		enterNode(node) {
+			if (node.type === 'SvelteElement') {
+				styles.push(...getInlineStyleRoots(node));
+			}
+		},
+		leaveNode() {
+			/* noop */
+		}
+	});
+	return collectCustomProperties(styles).used;
+}
+
+/**
+ * Gets the AST of the `<style>` element as a list.
+ * Returns `null` if the `<style>` element cannot be parsed.
+ */
+function getStyleElementRoots(styleContext: StyleContext): Root[] | null {
+	if (styleContext.status === 'success') {
+		return [styleContext.sourceAst];
+	}
+	return styleContext.status === 'no-style-element' ? [] : null;
+}
+
+/**
+ * Gets the ASTs of the `style` attribute and the `style:` directives of the given element.
+ * Dynamic parts of the values are left out.
+ */
+function getInlineStyleRoots(node: AST.SvelteElement): Root[] {
+	if (node.kind === 'component') {
+		return [];
+	}
+	const styles: Root[] = [];
+	for (const attr of node.startTag.attributes) {
+		let style: Root | null = null;
+		if (attr.type === 'SvelteAttribute' && attr.key.name === 'style') {
+			style = parseInlineStyle(getLiteralText(attr.value));
+		} else if (attr.type === 'SvelteStyleDirective') {
+			style = parseInlineStyle(`${attr.key.name.name}: ${getLiteralText(attr.value)}`);
+		}
+		if (style) {
+			styles.push(style);
+		}
+	}
+	return styles;
+}
+
+/**
+ * Gets the text of the literal parts of the given attribute value.
+ */
+function getLiteralText(value: (AST.SvelteLiteral | AST.SvelteMustacheTag)[]): string {
+	return value.map((part) => (part.type === 'SvelteLiteral' ? part.value : '')).join('');
+}
+
+/**
+ * Parses the given inline style. Returns `null` if it cannot be parsed.
+ */
+function parseInlineStyle(value: string): Root | null {
+	try {
+		return postcss.parse(value);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Collects the custom properties read through `var()` by the given styles.
+ */
+function collectCustomProperties(styles: Root[]): { used: Set<string>; required: Set<string> } {
+	const used = new Set<string>();
+	const required = new Set<string>();
+	const declared = new Set<string>();
+	for (const style of styles) {
+		style.walkDecls((decl) => {
+			if (decl.prop.startsWith('--')) {
+				declared.add(decl.prop);
+			}
+			for (const reference of collectVarReferences(decl.value)) {
+				used.add(reference.name);
+				if (!reference.hasFallback && !reference.inFallback) {
+					required.add(reference.name);
+				}
+			}
+		});
+	}
+	for (const name of declared) {
+		required.delete(name);
+	}
+	return { used, required };
+}
+
+/**
+ * Gets the definition of the component in the given file.
+ * Returns `null` if the file cannot be read or parsed.
+ */
+export function getComponentDefinition(
+	context: RuleContext,
+	ts: TypeScript,
+	filePath: string
+): ComponentDefinition | null {
+	const cached = definitionCache.get(filePath);
+	if (cached) {
+		return cached;
+	}
+	const file = getComponentFile(context, filePath);
+	if (!file) {
+		return null;
+	}
+	const definition = parseComponent(ts, filePath, file);
+	definitionCache.set(filePath, definition);
+	return definition;
+}
+
+/**
+ * Gets the definition of the `.svelte.js` or `.svelte.ts` module in the given file.
+ * Returns `null` if the file cannot be read.
+ */
+export function getModuleDefinition(ts: TypeScript, filePath: string): ModuleDefinition | null {
+	const cached = moduleDefinitionCache.get(filePath);
+	if (cached) {
+		return cached;
+	}
+	let code: string;
+	try {
+		code = fs.readFileSync(filePath, 'utf8');
+	} catch {
+		return null;
+	}
+	const sourceFile = ts.createSourceFile(
+		filePath,
+		code,
+		ts.ScriptTarget.Latest,
+		true,
+		/\.[cm]?ts$/u.test(filePath) ? ts.ScriptKind.TS : ts.ScriptKind.JS
+	);
+	const definition: ModuleDefinition = { filePath, sourceFile, exports: new Set(), closed: true };
+	for (const statement of sourceFile.statements) {
+		const names = getExportedNames(ts, statement);
+		if (names) {
+			names.forEach((name) => definition.exports.add(name));
+		} else {
+			definition.closed = false;
+		}
+	}
+	moduleDefinitionCache.set(filePath, definition);
+	return definition;
+}
+
+/**
+ * Parses the scripts of the component and collects its props.
+ */
+function parseComponent(
+	ts: TypeScript,
+	filePath: string,
+	file: ComponentFile
+): ComponentDefinition {
+	const definition: ComponentDefinition = {
+		filePath,
+		sourceFiles: [],
+		runes: false,
+		props: new Map(),
+		closed: !file.usesAllProps,
+		events: file.events,
+		snippets: new Set(),
+		exports: new Set(),
+		moduleExports: new Set()
+	};
+	let instance: TS.SourceFile | null = null;
+	for (const script of file.scripts) {
+		const sourceFile = ts.createSourceFile(
+			`${filePath}.${definition.sourceFiles.length}.ts`,
+			script.code,
+			ts.ScriptTarget.Latest,
+			true,
+			ts.ScriptKind.TS
+		);
+		definition.sourceFiles.push(sourceFile);
+		if (script.module) {
+			for (const statement of sourceFile.statements) {
+				getExportedNames(ts, statement)?.forEach((name) => definition.moduleExports.add(name));
+			}
+		} else {
+			instance = sourceFile;
+		}
+	}
+	if (!instance) {
+		return definition;
+	}
+	/** The names exported with `export { ... }`, which are props in legacy mode. */
+	const exportedNames: string[] = [];
+	for (const statement of instance.statements) {
+		if (!ts.isVariableStatement(statement)) {
+			if (ts.isExportDeclaration(statement)) {
+				exportedNames.push(...(getExportedNames(ts, statement) ?? []));
+			} else {
+				// e.g. `export function focus() {}`
+				getExportedNames(ts, statement)?.forEach((name) => definition.exports.add(name));
+			}
+			continue;
+		}
+		const exported = statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+		const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+		for (const declaration of statement.declarationList.declarations) {
+			if (isPropsRuneCall(ts, declaration.initializer)) {
+				definition.runes = true;
+				collectRunesProps(ts, definition, declaration);
+			} else if (exported && ts.isIdentifier(declaration.name) && !isConst) {
+				definition.props.set(declaration.name.text, {
+					name: declaration.name.text,
+					required: !declaration.initializer,
+					type: declaration.type ?? null,
+					// All props can be bound in legacy mode.
+					bindable: true
+				});
+			} else if (exported) {
+				collectBindingNames(ts, declaration.name, definition.exports);
+			}
+		}
+	}
+	if (definition.runes) {
+		for (const name of exportedNames) {
+			definition.exports.add(name);
+		}
+	} else if (exportedNames.length) {
+		// e.g. `export { foo as bar }`, which may be a prop or an export.
+		definition.closed = false;
+	}
+	for (const [name, prop] of definition.props) {
+		if (file.renderedSnippets.has(name) || (prop.type && isSnippetType(ts, prop.type))) {
+			definition.snippets.add(name);
+		}
+	}
+	return definition;
+}
+
+/**
+ * Checks whether the given expression is `$props()`.
+ */
+function isPropsRuneCall(ts: TypeScript, node: TS.Expression | undefined): boolean {
+	if (!node || !ts.isCallExpression(node)) {
+		return false;
+	}
+	return ts.isIdentifier(node.expression) && node.expression.text === '$props';
+}
+
+/**
+ * Checks whether the given type is `Snippet`, `Snippet<[...]>` or a union containing it.
+ */
+function isSnippetType(ts: TypeScript, node: TS.TypeNode): boolean {
+	if (ts.isUnionTypeNode(node)) {
+		return node.types.some((type) => isSnippetType(ts, type));
+	}
+	if (ts.isParenthesizedTypeNode(node)) {
+		return isSnippetType(ts, node.type);
+	}
+	if (!ts.isTypeReferenceNode(node)) {
+		return false;
+	}
+	// e.g. `Snippet`, `svelte.Snippet`
+	const name = ts.isIdentifier(node.typeName) ? node.typeName : node.typeName.right;
+	return name.text === 'Snippet';
+}
+
+/**
+ * Gets the names exported by the given statement.
+ * Returns `null` if the statement re-exports all names of another module.
+ */
+function getExportedNames(ts: TypeScript, statement: TS.Statement): string[] | null {
+	const names: string[] = [];
+	if (ts.isExportDeclaration(statement)) {
+		if (statement.isTypeOnly) {
+			return names;
+		}
+		if (!statement.exportClause) {
+			// e.g. `export * from './foo.js'`
+			return null;
+		}
+		if (ts.isNamespaceExport(statement.exportClause)) {
+			// e.g. `export * as foo from './foo.js'`
+			return [statement.exportClause.name.text];
+		}
+		for (const element of statement.exportClause.elements) {
+			if (!element.isTypeOnly) {
+				names.push(element.name.text);
+			}
+		}
+		return names;
+	}
+	if (ts.isExportAssignment(statement)) {
+		return ['default'];
+	}
+	const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+	if (!modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+		return names;
+	}
+	const isDefault = modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+	if (ts.isVariableStatement(statement)) {
+		const set = new Set<string>();
+		for (const declaration of statement.declarationList.declarations) {
+			collectBindingNames(ts, declaration.name, set);
+		}
+		names.push(...set);
+	} else if (
+		ts.isFunctionDeclaration(statement) ||
+		ts.isClassDeclaration(statement) ||
+		ts.isEnumDeclaration(statement)
+	) {
+		if (isDefault) {
+			names.push('default');
+		} else if (statement.name) {
+			names.push(statement.name.text);
+		}
+	}
+	return names;
+}
+
+/**
+ * Collects the names declared by the given binding name, e.g. `{ a, b: [c] }`.
+ */
+function collectBindingNames(ts: TypeScript, node: TS.BindingName, names: Set<string>) {
+	if (ts.isIdentifier(node)) {
+		names.add(node.text);
+		return;
+	}
+	for (const element of node.elements) {
+		if (!ts.isOmittedExpression(element)) {
+			collectBindingNames(ts, element.name, names);
+		}
+	}
+}
+
+/**
+ * Checks whether the given expression is `$bindable()`.
+ */
+function isBindableRuneCall(ts: TypeScript, node: TS.Expression | undefined): boolean {
+	if (!node || !ts.isCallExpression(node)) {
+		return false;
+	}
+	return ts.isIdentifier(node.expression) && node.expression.text === '$bindable';
+}
+
+/**
+ * Checks whether the given expression is `$bindable()` without a fallback value.
+ */
+function isRequiredBindable(ts: TypeScript, node: TS.Expression): boolean {
+	return isBindableRuneCall(ts, node) && (node as TS.CallExpression).arguments.length === 0;
+}
+
+/**
+ * Collects the props from `let { ... }: Props = $props()`.
+ */
+function collectRunesProps(
+	ts: TypeScript,
+	definition: ComponentDefinition,
+	declaration: TS.VariableDeclaration
+) {
+	const members = declaration.type ? getTypeMembers(ts, definition, declaration.type) : null;
+	const destructured = ts.isObjectBindingPattern(declaration.name);
+	for (const member of members ?? []) {
+		definition.props.set(member.name, {
+			name: member.name,
+			required: !member.optional,
+			type: member.type,
+			// `$bindable()` can only be used in the destructuring, so it is unknown otherwise.
+			bindable: destructured ? false : null
+		});
+	}
+	if (!ts.isObjectBindingPattern(declaration.name)) {
+		if (!members) {
+			definition.closed = false;
+		}
+		return;
+	}
+	for (const element of declaration.name.elements) {
+		if (element.dotDotDotToken) {
+			definition.closed = false;
+			continue;
+		}
+		const key = element.propertyName ?? element.name;
+		const name =
+			ts.isIdentifier(key) || ts.isStringLiteral(key) || ts.isNumericLiteral(key) ? key.text : null;
+		if (name == null) {
+			definition.closed = false;
+			continue;
+		}
+		const bindable = isBindableRuneCall(ts, element.initializer);
+		const prop = definition.props.get(name);
+		if (prop) {
+			if (element.initializer && !isRequiredBindable(ts, element.initializer)) {
+				prop.required = false;
+			}
+			prop.bindable = bindable;
+		} else {
+			definition.props.set(name, {
+				name,
+				// Untyped props are required unless they have a default value.
+				required: !members && (!element.initializer || isRequiredBindable(ts, element.initializer)),
+				type: null,
+				bindable
+			});
+		}
+	}
+}
+
+type TypeMember = { name: string; optional: boolean; type: TS.TypeNode | null };
+
+/**
+ * Gets the members of the given props type.
+ * If the type contains any part that cannot be analyzed, the definition is marked as not closed.
+ * Returns `null` if no member can be collected.
+ */
+function getTypeMembers(
+	ts: TypeScript,
+	definition: ComponentDefinition,
+	typeNode: TS.TypeNode,
+	visited = new Set<TS.Node>()
+): TypeMember[] | null {
+	if (visited.has(typeNode)) {
+		return null;
+	}
+	visited.add(typeNode);
+	if (ts.isParenthesizedTypeNode(typeNode)) {
+		return getTypeMembers(ts, definition, typeNode.type, visited);
+	}
+	if (ts.isIntersectionTypeNode(typeNode)) {
+		const members: TypeMember[] = [];
+		for (const type of typeNode.types) {
+			members.push(...(getTypeMembers(ts, definition, type, visited) ?? []));
+		}
+		return members;
+	}
+	if (ts.isTypeLiteralNode(typeNode)) {
+		return collectMembers(ts, definition, typeNode.members);
+	}
+	if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+		const declaration = findTypeDeclaration(ts, definition, typeNode.typeName.text);
+		if (declaration) {
+			if (ts.isTypeAliasDeclaration(declaration)) {
+				return getTypeMembers(ts, definition, declaration.type, visited);
+			}
+			if (declaration.heritageClauses?.length) {
+				definition.closed = false;
+			}
+			return collectMembers(ts, definition, declaration.members);
+		}
+	}
+	definition.closed = false;
+	return null;
+}
+
+/**
+ * Collects the members of the given type literal or interface.
+ */
+function collectMembers(
+	ts: TypeScript,
+	definition: ComponentDefinition,
+	members: TS.NodeArray<TS.TypeElement>
+): TypeMember[] {
+	const result: TypeMember[] = [];
+	for (const member of members) {
+		if (
+			(ts.isPropertySignature(member) || ts.isMethodSignature(member)) &&
+			(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))
+		) {
+			result.push({
+				name: member.name.text,
+				optional: Boolean(member.questionToken),
+				type: ts.isPropertySignature(member) ? (member.type ?? null) : null
+			});
+		} else {
+			definition.closed = false;
+		}
+	}
+	return result;
+}
+
+/**
+ * Finds the type alias or interface with the given name in the scripts of the component.
+ */
+export function findTypeDeclaration(
+	ts: TypeScript,
+	definition: ComponentDefinition,
+	name: string
+): TS.TypeAliasDeclaration | TS.InterfaceDeclaration | null {
+	for (const sourceFile of definition.sourceFiles) {
+		for (const statement of sourceFile.statements) {
+			if (
+				(ts.isTypeAliasDeclaration(statement) || ts.isInterfaceDeclaration(statement)) &&
+				statement.name.text === name
+			) {
+				return statement;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Gets the custom properties (`--style-props`) read by the component in the given file.
+ * Returns `null` if the file cannot be read or parsed.
+ */
+export function getComponentStyleProps(
+	context: RuleContext,
+	filePath: string
+): ComponentStyleProps | null {
+	const file = getComponentFile(context, filePath);
+	if (!file) {
+		return null;
+	}
+	const result: ComponentStyleProps = {
+		used: new Set(file.usedCustomProperties),
+		required: file.requiredCustomProperties,
+		closed: file.closed
+	};
+	// Custom properties are inherited by the components rendered by the component.
+	const visited = new Set([filePath]);
+	const queue = [...file.components];
+	for (const componentPath of queue) {
+		if (visited.has(componentPath)) {
+			continue;
+		}
+		visited.add(componentPath);
+		const componentFile = getComponentFile(context, componentPath);
+		if (!componentFile) {
+			result.closed = false;
+			continue;
+		}
+		componentFile.usedCustomProperties.forEach((name) => result.used.add(name));
+		result.closed &&= componentFile.closed;
+		queue.push(...componentFile.components);
+	}
+	return result;
+}
+
+/**
+ * Collects the `var()` references in the given CSS value.
+ */
+function collectVarReferences(value: string): VarReference[] {
+	const references: VarReference[] = [];
+	// Whether each open parenthesis starts the fallback of `var()`.
+	const stack: boolean[] = [];
+	for (const match of value.replace(CSS_STRING_RE, '""').matchAll(VAR_OR_PAREN_RE)) {
+		if (match[0] === '(') {
+			stack.push(false);
+		} else if (match[0] === ')') {
+			stack.pop();
+		} else {
+			const hasFallback = match[2] === ',';
+			references.push({ name: match[1], hasFallback, inFallback: stack.includes(true) });
+			stack.push(hasFallback);
+		}
+	}
+	return references;
+}
+
+/**
+ * Gets the names of the arguments that the component in the given file passes to each snippet
+ * with `{@render}`, in order. Snippets rendered with other arguments than identifiers are not included.
+ * Returns `null` if the file cannot be read or parsed, or if the component still has `<slot>` elements.
+ */
+export function getComponentSnippetParams(
+	context: RuleContext,
+	filePath: string
+): Map<string, string[]> | null {
+	const file = getComponentFile(context, filePath);
+	if (!file || file.hasSlots) {
+		return null;
+	}
+	const params = new Map<string, string[]>();
+	for (const [name, args] of file.renderedSnippets) {
+		if (args) {
+			params.set(name, args);
+		}
+	}
+	return params;
+}
+
+/**
+ * Gets the props of the component in the given file that are bound with `bind:` by the components
+ * in the given directory.
+ * Returns `null` if the consumers of the component cannot be determined,
+ * e.g. the component is not imported by any component, or it is re-exported.
+ */
+export function getComponentBindings(
+	context: RuleContext,
+	ts: TypeScript,
+	filePath: string,
+	rootDir: string
+): Set<string> | null {
+	let bindings: Set<string> | null = null;
+	for (const entry of getProjectIndex(context, ts, rootDir).values()) {
+		if (entry.openComponents.has(filePath)) {
+			return null;
+		}
+		const names = entry.bindings.get(filePath);
+		if (names) {
+			bindings ??= new Set();
+			for (const name of names) {
+				bindings.add(name);
+			}
+		}
+	}
+	return bindings;
+}
+
+/**
+ * Gets the consumer entries of the source files in the given directory.
+ * The index is built once and kept while it is used, e.g. during a lint run.
+ * After that, only the directories and files that have been modified since they were indexed
+ * are read again, so new and modified consumers are found as soon as they are written.
+ */
+function getProjectIndex(
+	context: RuleContext,
+	ts: TypeScript,
+	rootDir: string
+): Map<string, ConsumerEntry> {
+	const libDir = getSvelteKitFiles(context).lib;
+	const index = projectIndexCache.get(rootDir) ?? { directories: new Map(), files: new Map() };
+	const updated: ProjectIndex = { directories: new Map(), files: new Map() };
+
+	/**
+	 * Updates the entries of the given directory and its subdirectories.
+	 */
+	function updateDirectory(dir: string) {
+		const mtime = getMtime(dir);
+		if (mtime == null) {
+			return;
+		}
+		let directory = index.directories.get(dir);
+		if (directory?.mtime !== mtime) {
+			directory = readDirectory(dir, mtime);
+		}
+		updated.directories.set(dir, directory);
+		for (const file of directory.files) {
+			const fileMtime = getMtime(file);
+			if (fileMtime == null) {
+				continue;
+			}
+			const entry = index.files.get(file);
+			updated.files.set(
+				file,
+				entry?.mtime === fileMtime ? entry : readConsumer(context, ts, file, fileMtime, libDir)
+			);
+		}
+		directory.directories.forEach(updateDirectory);
+	}
+
+	updateDirectory(rootDir);
+	projectIndexCache.set(rootDir, updated);
+	return updated.files;
+}
+
+/**
+ * Reads the source files and the subdirectories of the given directory,
+ * except ignored and hidden directories.
+ */
+function readDirectory(dir: string, mtime: number): DirectoryEntry {
+	const directory: DirectoryEntry = { mtime, files: [], directories: [] };
+	let entries: fs.Dirent[];
+	try {
+		entries = fs.readdirSync(dir, { withFileTypes: true });
+	} catch {
+		return directory;
+	}
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			if (!IGNORED_DIRECTORIES.includes(entry.name) && !entry.name.startsWith('.')) {
+				directory.directories.push(entryPath);
+			}
+		} else if (SOURCE_FILE_EXTENSIONS.includes(path.extname(entry.name))) {
+			directory.files.push(entryPath);
+		}
+	}
+	return directory;
+}
+
+/**
+ * Reads the components that the given source file uses.
+ */
+function readConsumer(
+	context: RuleContext,
+	ts: TypeScript,
+	filePath: string,
+	mtime: number,
+	libDir: string
+): ConsumerEntry {
+	if (!filePath.endsWith('.svelte')) {
+		return { mtime, bindings: new Map(), openComponents: getModuleImports(ts, filePath, libDir) };
+	}
+	const file = getComponentFile(context, filePath);
+	return {
+		mtime,
+		bindings: file?.bindings ?? new Map(),
+		openComponents: file?.openComponents ?? new Set()
+	};
+}
+
+/**
+ * Gets the components imported by the given JavaScript or TypeScript module.
+ */
+function getModuleImports(ts: TypeScript, filePath: string, libDir: string): Set<string> {
+	let code: string;
+	try {
+		code = fs.readFileSync(filePath, 'utf8');
+	} catch {
+		return new Set();
+	}
+	const components = new Set<string>();
+	for (const { fileName } of ts.preProcessFile(code, true, true).importedFiles) {
+		const componentPath = resolveSvelteImport(fileName, filePath, libDir);
+		if (componentPath && isComponentFile(componentPath)) {
+			components.add(componentPath);
+		}
+	}
+	return components;
+}
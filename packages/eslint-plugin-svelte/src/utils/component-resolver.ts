@@ -0,0 +1,106 @@
+import type { AST } from 'svelte-eslint-parser';
+import fs from 'fs';
+import path from 'path';
+import type { RuleContext } from '../types.js';
+import { getPhysicalFilename } from './compat.js';
+import { findVariable } from './ast-utils.js';
+import { getSvelteKitFiles } from './svelte-context.js';
+import { getPackageJsons } from './get-package-json.js';
+
+/**
+ * Resolves the file path of the component used by the given element.
+ * Only components imported from relative paths, `$lib` or `.svelte` files of packages are resolved.
+ */
+export function resolveComponentPath(context: RuleContext, node: AST.SvelteElement): string | null {
+	if (node.kind !== 'component' || node.name.type !== 'Identifier') {
+		return null;
+	}
+	const variable = findVariable(context, node.name);
+	const def = variable?.defs[0];
+	if (
+		def?.type !== 'ImportBinding' ||
+		def.node.type !== 'ImportDefaultSpecifier' ||
+		def.parent.type !== 'ImportDeclaration' ||
+		def.parent.importKind === 'type'
+	) {
+		return null;
+	}
+	const filePath = resolveSvelteImport(
+		String(def.parent.source.value),
+		getPhysicalFilename(context),
+		getSvelteKitFiles(context).lib
+	);
+	return filePath && isComponentFile(filePath) ? filePath : null;
+}
+
+/**
+ * Checks whether the given file is a Svelte component, not a `.svelte.js` or `.svelte.ts` module.
+ */
+export function isComponentFile(filePath: string): boolean {
+	return filePath.endsWith('.svelte');
+}
+
+/**
+ * Resolves the file path of the Svelte component or the `.svelte.js`/`.svelte.ts` module
+ * imported from the given importer.
+ */
+export function resolveSvelteImport(
+	source: string,
+	importer: string,
+	libDir: string
+): string | null {
+	if (!/\.svelte(?:\.[jt]s)?$/u.test(source)) {
+		return null;
+	}
+	let filePath: string | null;
+	if (source.startsWith('./') || source.startsWith('../')) {
+		filePath = path.resolve(path.dirname(importer), source);
+	} else if (source.startsWith('$lib/')) {
+		filePath = path.join(libDir, source.slice(5));
+	} else {
+		filePath = resolvePackageImport(source, importer);
+	}
+	if (!filePath) {
+		return null;
+	}
+	return getFileCandidates(filePath).find((candidate) => fs.existsSync(candidate)) ?? null;
+}
+
+/**
+ * Gets the files that the given import path may refer to.
+ * e.g. `./counter.svelte` may be `counter.svelte.ts`, and `./counter.svelte.js` may be `counter.svelte.ts`.
+ */
+function getFileCandidates(filePath: string): string[] {
+	if (filePath.endsWith('.svelte')) {
+		return [filePath, `${filePath}.ts`, `${filePath}.js`];
+	}
+	if (filePath.endsWith('.svelte.js')) {
+		return [filePath, `${filePath.slice(0, -3)}.ts`];
+	}
+	return [filePath];
+}
+
+/**
+ * Resolves the file path of the given package subpath, e.g. `my-lib/Button.svelte`.
+ * The package is looked up from the `package.json` files of the importer,
+ * which covers the package itself and its `node_modules`.
+ */
+function resolvePackageImport(source: string, importer: string): string | null {
+	const match = /^((?:@[^/]+\/)?[^/]+)\/(.+)$/u.exec(source);
+	if (!match) {
+		return null;
+	}
+	const [, packageName, subpath] = match;
+	for (const packageJson of getPackageJsons(importer)) {
+		const dir = path.dirname(packageJson.filePath);
+		if (packageJson.name === packageName) {
+			return path.join(dir, subpath);
+		}
+		const filePath = path.join(dir, 'node_modules', source);
+		if (fs.existsSync(filePath)) {
+			// Workspace packages are symlinked, but consumers and components must share the same path.
+			return fs.realpathSync(filePath);
+		}
+	}
+	return null;
+}
@@ -1,3 +1,4 @@
 export * from './style-attribute.js';
 export * from './resource.js';
 export * from './utils.js';
+export * from './property-values.js';
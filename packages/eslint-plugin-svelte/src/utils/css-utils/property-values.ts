@@ -0,0 +1,500 @@
+type ValueType = 'length' | 'percentage' | 'number' | 'integer' | 'angle' | 'color';
+
+type ValueDefinition = {
+	keywords?: string[];
+	types?: ValueType[];
+	/** The maximum number of the space-separated values. Defaults to 1. */
+	max?: number;
+	/**
+	 * The groups of keywords that can be combined in any order, e.g. `<'white-space-collapse'> || <'text-wrap-mode'>`.
+	 * Each value of the combination must be from a different group.
+	 */
+	keywordGroups?: string[][];
+};
+
+/** The vendor prefixes used by browsers. */
+export const KNOWN_VENDOR_PREFIXES = ['-webkit-', '-moz-', '-ms-', '-o-'];
+
+/** Values with a vendor prefix, e.g. `-webkit-box`. Their support varies, so they are not checked. */
+const VENDOR_PREFIXED_VALUE_RE = /^-[a-z]+-/iu;
+
+/** The keywords that can be used for all properties. */
+const GLOBAL_KEYWORDS = new Set(['inherit', 'initial', 'unset', 'revert', 'revert-layer']);
+
+const NAMED_COLORS = [
+	'aliceblue',
+	'antiquewhite',
+	'aqua',
+	'aquamarine',
+	'azure',
+	'beige',
+	'bisque',
+	'black',
+	'blanchedalmond',
+	'blue',
+	'blueviolet',
+	'brown',
+	'burlywood',
+	'cadetblue',
+	'chartreuse',
+	'chocolate',
+	'coral',
+	'cornflowerblue',
+	'cornsilk',
+	'crimson',
+	'cyan',
+	'darkblue',
+	'darkcyan',
+	'darkgoldenrod',
+	'darkgray',
+	'darkgreen',
+	'darkgrey',
+	'darkkhaki',
+	'darkmagenta',
+	'darkolivegreen',
+	'darkorange',
+	'darkorchid',
+	'darkred',
+	'darksalmon',
+	'darkseagreen',
+	'darkslateblue',
+	'darkslategray',
+	'darkslategrey',
+	'darkturquoise',
+	'darkviolet',
+	'deeppink',
+	'deepskyblue',
+	'dimgray',
+	'dimgrey',
+	'dodgerblue',
+	'firebrick',
+	'floralwhite',
+	'forestgreen',
+	'fuchsia',
+	'gainsboro',
+	'ghostwhite',
+	'gold',
+	'goldenrod',
+	'gray',
+	'green',
+	'greenyellow',
+	'grey',
+	'honeydew',
+	'hotpink',
+	'indianred',
+	'indigo',
+	'ivory',
+	'khaki',
+	'lavender',
+	'lavenderblush',
+	'lawngreen',
+	'lemonchiffon',
+	'lightblue',
+	'lightcoral',
+	'lightcyan',
+	'lightgoldenrodyellow',
+	'lightgray',
+	'lightgreen',
+	'lightgrey',
+	'lightpink',
+	'lightsalmon',
+	'lightseagreen',
+	'lightskyblue',
+	'lightslategray',
+	'lightslategrey',
+	'lightsteelblue',
+	'lightyellow',
+	'lime',
+	'limegreen',
+	'linen',
+	'magenta',
+	'maroon',
+	'mediumaquamarine',
+	'mediumblue',
+	'mediumorchid',
+	'mediumpurple',
+	'mediumseagreen',
+	'mediumslateblue',
+	'mediumspringgreen',
+	'mediumturquoise',
+	'mediumvioletred',
+	'midnightblue',
+	'mintcream',
+	'mistyrose',
+	'moccasin',
+	'navajowhite',
+	'navy',
+	'oldlace',
+	'olive',
+	'olivedrab',
+	'orange',
+	'orangered',
+	'orchid',
+	'palegoldenrod',
+	'palegreen',
+	'paleturquoise',
+	'palevioletred',
+	'papayawhip',
+	'peachpuff',
+	'peru',
+	'pink',
+	'plum',
+	'powderblue',
+	'purple',
+	'rebeccapurple',
+	'red',
+	'rosybrown',
+	'royalblue',
+	'saddlebrown',
+	'salmon',
+	'sandybrown',
+	'seagreen',
+	'seashell',
+	'sienna',
+	'silver',
+	'skyblue',
+	'slateblue',
+	'slategray',
+	'slategrey',
+	'snow',
+	'springgreen',
+	'steelblue',
+	'tan',
+	'teal',
+	'thistle',
+	'tomato',
+	'turquoise',
+	'violet',
+	'wheat',
+	'white',
+	'whitesmoke',
+	'yellow',
+	'yellowgreen',
+	// Special and system colors.
+	'currentcolor',
+	'transparent',
+	'accentcolor',
+	'accentcolortext',
+	'activetext',
+	'buttonborder',
+	'buttonface',
+	'buttontext',
+	'canvas',
+	'canvastext',
+	'field',
+	'fieldtext',
+	'graytext',
+	'highlight',
+	'highlighttext',
+	'linktext',
+	'mark',
+	'marktext',
+	'selecteditem',
+	'selecteditemtext',
+	'visitedtext'
+];
+
+const SIZE: ValueDefinition = {
+	keywords: ['auto', 'min-content', 'max-content', 'fit-content', 'stretch'],
+	types: ['length', 'percentage']
+};
+const MAX_SIZE: ValueDefinition = {
+	keywords: ['none', ...SIZE.keywords!],
+	types: SIZE.types
+};
+const INSET: ValueDefinition = { keywords: ['auto'], types: ['length', 'percentage'] };
+const MARGIN: ValueDefinition = { keywords: ['auto'], types: ['length', 'percentage'] };
+const PADDING: ValueDefinition = { types: ['length', 'percentage'] };
+const COLOR: ValueDefinition = { types: ['color'] };
+const OVERFLOW: ValueDefinition = { keywords: ['visible', 'hidden', 'clip', 'scroll', 'auto'] };
+const BORDER_STYLE = [
+	'none',
+	'hidden',
+	'dotted',
+	'dashed',
+	'solid',
+	'double',
+	'groove',
+	'ridge',
+	'inset',
+	'outset'
+];
+const DISPLAY_KEYWORDS = [
+	'block',
+	'inline',
+	'run-in',
+	'flow',
+	'flow-root',
+	'table',
+	'flex',
+	'grid',
+	'ruby',
+	'list-item',
+	'contents',
+	'none',
+	'inline-block',
+	'inline-table',
+	'inline-flex',
+	'inline-grid',
+	'table-row-group',
+	'table-header-group',
+	'table-footer-group',
+	'table-row',
+	'table-cell',
+	'table-column-group',
+	'table-column',
+	'table-caption',
+	'ruby-base',
+	'ruby-text',
+	'ruby-base-container',
+	'ruby-text-container'
+];
+const CURSOR_KEYWORDS = [
+	'auto',
+	'default',
+	'none',
+	'context-menu',
+	'help',
+	'pointer',
+	'progress',
+	'wait',
+	'cell',
+	'crosshair',
+	'text',
+	'vertical-text',
+	'alias',
+	'copy',
+	'move',
+	'no-drop',
+	'not-allowed',
+	'grab',
+	'grabbing',
+	'all-scroll',
+	'col-resize',
+	'row-resize',
+	'n-resize',
+	'e-resize',
+	's-resize',
+	'w-resize',
+	'ne-resize',
+	'nw-resize',
+	'se-resize',
+	'sw-resize',
+	'ew-resize',
+	'ns-resize',
+	'nesw-resize',
+	'nwse-resize',
+	'zoom-in',
+	'zoom-out'
+];
+
+/** The definitions of the values of the commonly used properties. */
+const VALUE_DEFINITIONS = new Map<string, ValueDefinition>([
+	['display', { keywords: DISPLAY_KEYWORDS, max: 3 }],
+	['position', { keywords: ['static', 'relative', 'absolute', 'fixed', 'sticky'] }],
+	['float', { keywords: ['left', 'right', 'none', 'inline-start', 'inline-end'] }],
+	['clear', { keywords: ['left', 'right', 'both', 'none', 'inline-start', 'inline-end'] }],
+	['visibility', { keywords: ['visible', 'hidden', 'collapse'] }],
+	['overflow', { ...OVERFLOW, max: 2 }],
+	['overflow-x', OVERFLOW],
+	['overflow-y', OVERFLOW],
+	['box-sizing', { keywords: ['content-box', 'border-box'] }],
+	['flex-direction', { keywords: ['row', 'row-reverse', 'column', 'column-reverse'] }],
+	['flex-wrap', { keywords: ['nowrap', 'wrap', 'wrap-reverse'] }],
+	[
+		'text-align',
+		{
+			keywords: [
+				'left',
+				'right',
+				'center',
+				'justify',
+				'start',
+				'end',
+				'match-parent',
+				'justify-all'
+			]
+		}
+	],
+	[
+		'text-transform',
+		{
+			keywords: ['none', 'capitalize', 'uppercase', 'lowercase', 'full-width', 'full-size-kana'],
+			max: 2
+		}
+	],
+	[
+		'white-space',
+		{
+			keywords: ['normal', 'pre', 'pre-wrap', 'pre-line'],
+			// CSS Text Module Level 4: `<'white-space-collapse'> || <'text-wrap-mode'>`
+			keywordGroups: [
+				['collapse', 'discard', 'preserve', 'preserve-breaks', 'preserve-spaces', 'break-spaces'],
+				['wrap', 'nowrap']
+			]
+		}
+	],
+	[
+		'pointer-events',
+		{
+			keywords: [
+				'auto',
+				'none',
+				'visiblepainted',
+				'visiblefill',
+				'visiblestroke',
+				'visible',
+				'painted',
+				'fill',
+				'stroke',
+				'bounding-box',
+				'all'
+			]
+		}
+	],
+	['resize', { keywords: ['none', 'both', 'horizontal', 'vertical', 'block', 'inline'] }],
+	['user-select', { keywords: ['auto', 'text', 'none', 'contain', 'all'] }],
+	['object-fit', { keywords: ['fill', 'contain', 'cover', 'none', 'scale-down'] }],
+	['cursor', { keywords: CURSOR_KEYWORDS }],
+	['font-style', { keywords: ['normal', 'italic', 'oblique'], types: ['angle'], max: 2 }],
+	['font-weight', { keywords: ['normal', 'bold', 'bolder', 'lighter'], types: ['number'] }],
+	['border-style', { keywords: BORDER_STYLE, max: 4 }],
+	['opacity', { types: ['number', 'percentage'] }],
+	['z-index', { keywords: ['auto'], types: ['integer'] }],
+	['width', SIZE],
+	['height', SIZE],
+	['min-width', SIZE],
+	['min-height', SIZE],
+	['max-width', MAX_SIZE],
+	['max-height', MAX_SIZE],
+	['top', INSET],
+	['right', INSET],
+	['bottom', INSET],
+	['left', INSET],
+	['margin', { ...MARGIN, max: 4 }],
+	['margin-top', MARGIN],
+	['margin-right', MARGIN],
+	['margin-bottom', MARGIN],
+	['margin-left', MARGIN],
+	['padding', { ...PADDING, max: 4 }],
+	['padding-top', PADDING],
+	['padding-right', PADDING],
+	['padding-bottom', PADDING],
+	['padding-left', PADDING],
+	['color', COLOR],
+	['background-color', COLOR],
+	['border-color', { ...COLOR, max: 4 }],
+	['outline-color', COLOR]
+]);
+
+const NUMBER = String.raw`[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?`;
+const LENGTH_UNITS = [
+	'px',
+	'em',
+	'rem',
+	'ex',
+	'rex',
+	'ch',
+	'rch',
+	'cap',
+	'rcap',
+	'ic',
+	'ric',
+	'lh',
+	'rlh',
+	'vw',
+	'vh',
+	'vi',
+	'vb',
+	'vmin',
+	'vmax',
+	'svw',
+	'svh',
+	'svi',
+	'svb',
+	'svmin',
+	'svmax',
+	'lvw',
+	'lvh',
+	'lvi',
+	'lvb',
+	'lvmin',
+	'lvmax',
+	'dvw',
+	'dvh',
+	'dvi',
+	'dvb',
+	'dvmin',
+	'dvmax',
+	'cqw',
+	'cqh',
+	'cqi',
+	'cqb',
+	'cqmin',
+	'cqmax',
+	'cm',
+	'mm',
+	'q',
+	'in',
+	'pt',
+	'pc'
+];
+const LENGTH_RE = new RegExp(`^${NUMBER}(?:${LENGTH_UNITS.join('|')})$`, 'iu');
+const PERCENTAGE_RE = new RegExp(`^${NUMBER}%$`, 'u');
+const NUMBER_RE = new RegExp(`^${NUMBER}$`, 'iu');
+const ANGLE_RE = new RegExp(`^${NUMBER}(?:deg|grad|rad|turn)$`, 'iu');
+const VALUE_TYPE_TESTS: Record<ValueType, (value: string) => boolean> = {
+	// Zero can be written without a unit.
+	length: (value) => LENGTH_RE.test(value) || /^[+-]?(?:0+(?:\.0*)?|\.0+)$/u.test(value),
+	percentage: (value) => PERCENTAGE_RE.test(value),
+	number: (value) => NUMBER_RE.test(value),
+	integer: (value) => /^[+-]?\d+$/u.test(value),
+	angle: (value) => ANGLE_RE.test(value),
+	color: (value) =>
+		/^#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/iu.test(value) ||
+		NAMED_COLORS.includes(value.toLowerCase())
+};
+
+/**
+ * Checks whether the given value is valid for the given property.
+ * Returns `true` if the property is unknown or the value cannot be checked statically,
+ * e.g. if it contains functions such as `var()` or preprocessor variables.
+ */
+export function isValidPropertyValue(prop: string, value: string): boolean {
+	const definition = VALUE_DEFINITIONS.get(prop.toLowerCase());
+	const trimmed = value.trim();
+	if (!definition || !trimmed || /[$(),@{}]|\/\*/u.test(trimmed)) {
+		return true;
+	}
+	const values = trimmed.split(/\s+/u);
+	if (values.length === 1 && GLOBAL_KEYWORDS.has(trimmed.toLowerCase())) {
+		return true;
+	}
+	if (definition.keywordGroups && isKeywordCombination(definition.keywordGroups, values)) {
+		return true;
+	}
+	if (values.length > (definition.max ?? 1)) {
+		return false;
+	}
+	return values.every(
+		(v) =>
+			VENDOR_PREFIXED_VALUE_RE.test(v) ||
+			definition.keywords?.includes(v.toLowerCase()) ||
+			definition.types?.some((type) => VALUE_TYPE_TESTS[type](v))
+	);
+}
+
+/**
+ * Checks whether the given values are a combination of the keywords of different groups.
+ */
+function isKeywordCombination(groups: string[][], values: string[]): boolean {
+	const usedGroups = new Set<string[]>();
+	return values.every((v) => {
+		const group = groups.find((g) => !usedGroups.has(g) && g.includes(v.toLowerCase()));
+		if (!group) {
+			return false;
+		}
+		usedGroups.add(group);
+		return true;
+	});
+}
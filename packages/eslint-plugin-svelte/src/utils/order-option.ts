@@ -0,0 +1,110 @@
+import { toRegExp } from './regexp.js';
+
+type UserOrderObjectOption = {
+	match: string | string[];
+	sort: 'alphabetical' | 'ignore';
+};
+export type UserOrderOption = string | string[] | UserOrderObjectOption;
+
+export type CompiledOrderOption = {
+	match: (str: string) => boolean;
+	sort: 'alphabetical' | 'ignore';
+};
+
+/** The JSON schema of the items of the `order` option. */
+export const ORDER_OPTION_ITEM_SCHEMA = {
+	anyOf: [
+		{ type: 'string' },
+		{
+			type: 'array',
+			items: {
+				type: 'string'
+			},
+			uniqueItems: true,
+			minItems: 1
+		},
+		{
+			type: 'object',
+			properties: {
+				match: {
+					anyOf: [
+						{ type: 'string' },
+						{
+							type: 'array',
+							items: {
+								type: 'string'
+							},
+							uniqueItems: true,
+							minItems: 1
+						}
+					]
+				},
+				sort: {
+					enum: ['alphabetical', 'ignore']
+				}
+			},
+			required: ['match', 'sort'],
+			additionalProperties: false
+		}
+	]
+};
+
+/** Compile order option */
+export function compileOrderOption(option: UserOrderOption): CompiledOrderOption {
+	const cache: Record<string, boolean> = {};
+	const compiled = compileOptionWithoutCache(option);
+
+	return {
+		match: (str) => {
+			if (cache[str] != null) return cache[str];
+			return (cache[str] = compiled.match(str));
+		},
+		sort: compiled.sort
+	};
+
+	/** Compile order option without cache */
+	function compileOptionWithoutCache(option: UserOrderOption): CompiledOrderOption {
+		if (typeof option === 'string') {
+			const match = compileMatcher([option]);
+			return { match, sort: 'ignore' };
+		}
+		if (Array.isArray(option)) {
+			const match = compileMatcher(option);
+			return { match, sort: 'ignore' };
+		}
+		const { match } = compileOptionWithoutCache(option.match);
+		return { match, sort: option.sort || 'ignore' };
+	}
+}
+
+/** Compile matcher */
+function compileMatcher(pattern: string[]): (str: string) => boolean {
+	const rules: { negative: boolean; match: (str: string) => boolean }[] = [];
+	for (const p of pattern) {
+		let negative: boolean, patternStr: string;
+		if (p.startsWith('!')) {
+			// If there is `!` at the beginning, it will be parsed with a negative pattern.
+			negative = true;
+			patternStr = p.substring(1);
+		} else {
+			negative = false;
+			patternStr = p;
+		}
+		const regex = toRegExp(patternStr);
+		rules.push({ negative, match: (str) => regex.test(str) });
+	}
+	return (str) => {
+		// If the first rule is a negative pattern, they are considered to match if they do not match that pattern.
+		let result = Boolean(rules[0]?.negative);
+		for (const { negative, match } of rules) {
+			if (result === !negative) {
+				// Even if it matches, the result does not change, so skip it.
+				continue;
+			}
+			if (match(str)) {
+				result = !negative;
+			}
+		}
+		return result;
+	};
+}
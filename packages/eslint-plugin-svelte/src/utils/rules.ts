@@ -3,9 +3,16 @@
 // in order to update its content execute "pnpm run update"
 import type { RuleModule } from '../types.js';
 import typescriptEslintNoUnnecessaryCondition from '../rules/@typescript-eslint/no-unnecessary-condition.js';
+import a11yAltText from '../rules/a11y-alt-text.js';
+import a11yClickEventsHaveKeyEvents from '../rules/a11y-click-events-have-key-events.js';
+import a11yLabelHasAssociatedControl from '../rules/a11y-label-has-associated-control.js';
+import a11yNoAutofocus from '../rules/a11y-no-autofocus.js';
+import a11yNoRedundantRoles from '../rules/a11y-no-redundant-roles.js';
+import a11yNoStaticElementInteractions from '../rules/a11y-no-static-element-interactions.js';
 import blockLang from '../rules/block-lang.js';
 import buttonHasType from '../rules/button-has-type.js';
 import commentDirective from '../rules/comment-directive.js';
+import consistentBindableProps from '../rules/consistent-bindable-props.js';
 import consistentSelectorStyle from '../rules/consistent-selector-style.js';
 import derivedHasSameInputsOutputs from '../rules/derived-has-same-inputs-outputs.js';
 import experimentalRequireSlotTypes from '../rules/experimental-require-slot-types.js';
@@ -27,6 +34,7 @@ import noDupeOnDirectives from '../rules/no-dupe-on-directives.js';
 import noDupeStyleProperties from '../rules/no-dupe-style-properties.js';
 import noDupeUseDirectives from '../rules/no-dupe-use-directives.js';
 import noDynamicSlotName from '../rules/no-dynamic-slot-name.js';
+import noEventDispatcher from '../rules/no-event-dispatcher.js';
 import noExportLoadInSvelteModuleInKitPages from '../rules/no-export-load-in-svelte-module-in-kit-pages.js';
 import noExtraReactiveCurlies from '../rules/no-extra-reactive-curlies.js';
 import noGotoWithoutBase from '../rules/no-goto-without-base.js';
@@ -42,22 +50,33 @@ import noRawSpecialElements from '../rules/no-raw-special-elements.js';
 import noReactiveFunctions from '../rules/no-reactive-functions.js';
 import noReactiveLiterals from '../rules/no-reactive-literals.js';
 import noReactiveReassign from '../rules/no-reactive-reassign.js';
+import noReactiveStatements from '../rules/no-reactive-statements.js';
 import noRestrictedHtmlElements from '../rules/no-restricted-html-elements.js';
+import noServerOnlyImports from '../rules/no-server-only-imports.js';
 import noShorthandStylePropertyOverrides from '../rules/no-shorthand-style-property-overrides.js';
 import noSpacesAroundEqualSignsInAttribute from '../rules/no-spaces-around-equal-signs-in-attribute.js';
 import noStoreAsync from '../rules/no-store-async.js';
 import noSvelteInternal from '../rules/no-svelte-internal.js';
 import noTargetBlank from '../rules/no-target-blank.js';
+import noTopLevelBrowserGlobals from '../rules/no-top-level-browser-globals.js';
 import noTrailingSpaces from '../rules/no-trailing-spaces.js';
 import noUnknownStyleDirectiveProperty from '../rules/no-unknown-style-directive-property.js';
+import noUnmatchedSelector from '../rules/no-unmatched-selector.js';
+import noUnsafeRuneMutation from '../rules/no-unsafe-rune-mutation.js';
+import noUnserializableServerData from '../rules/no-unserializable-server-data.js';
 import noUnusedClassName from '../rules/no-unused-class-name.js';
+import noUnusedProps from '../rules/no-unused-props.js';
 import noUnusedSvelteIgnore from '../rules/no-unused-svelte-ignore.js';
 import noUselessChildrenSnippet from '../rules/no-useless-children-snippet.js';
 import noUselessMustaches from '../rules/no-useless-mustaches.js';
 import preferClassDirective from '../rules/prefer-class-directive.js';
 import preferConst from '../rules/prefer-const.js';
+import preferDerivedOverEffect from '../rules/prefer-derived-over-effect.js';
 import preferDestructuredStoreProps from '../rules/prefer-destructured-store-props.js';
+import preferEventAttributes from '../rules/prefer-event-attributes.js';
+import preferSnippets from '../rules/prefer-snippets.js';
 import preferStyleDirective from '../rules/prefer-style-directive.js';
+import preferSvelteReactivity from '../rules/prefer-svelte-reactivity.js';
 import requireEachKey from '../rules/require-each-key.js';
 import requireEventDispatcherTypes from '../rules/require-event-dispatcher-types.js';
 import requireOptimizedStyleAttribute from '../rules/require-optimized-style-attribute.js';
@@ -67,17 +86,30 @@ import requireStoresInit from '../rules/require-stores-init.js';
 import shorthandAttribute from '../rules/shorthand-attribute.js';
 import shorthandDirective from '../rules/shorthand-directive.js';
 import sortAttributes from '../rules/sort-attributes.js';
+import sortClasses from '../rules/sort-classes.js';
 import spacedHtmlComment from '../rules/spaced-html-comment.js';
 import system from '../rules/system.js';
 import validCompile from '../rules/valid-compile.js';
+import validComponentProps from '../rules/valid-component-props.js';
+import validComponentStyleProps from '../rules/valid-component-style-props.js';
 import validEachKey from '../rules/valid-each-key.js';
+import validLoadDataInKitPages from '../rules/valid-load-data-in-kit-pages.js';
 import validPropNamesInKitPages from '../rules/valid-prop-names-in-kit-pages.js';
+import validRenderTags from '../rules/valid-render-tags.js';
+import validStyleProperties from '../rules/valid-style-properties.js';
 
 export const rules = [
 	typescriptEslintNoUnnecessaryCondition,
+	a11yAltText,
+	a11yClickEventsHaveKeyEvents,
+	a11yLabelHasAssociatedControl,
+	a11yNoAutofocus,
+	a11yNoRedundantRoles,
+	a11yNoStaticElementInteractions,
 	blockLang,
 	buttonHasType,
 	commentDirective,
+	consistentBindableProps,
 	consistentSelectorStyle,
 	derivedHasSameInputsOutputs,
 	experimentalRequireSlotTypes,
@@ -99,6 +131,7 @@ export const rules = [
 	noDupeStyleProperties,
 	noDupeUseDirectives,
 	noDynamicSlotName,
+	noEventDispatcher,
 	noExportLoadInSvelteModuleInKitPages,
 	noExtraReactiveCurlies,
 	noGotoWithoutBase,
@@ -114,22 +147,33 @@ export const rules = [
 	noReactiveFunctions,
 	noReactiveLiterals,
 	noReactiveReassign,
+	noReactiveStatements,
 	noRestrictedHtmlElements,
+	noServerOnlyImports,
 	noShorthandStylePropertyOverrides,
 	noSpacesAroundEqualSignsInAttribute,
 	noStoreAsync,
 	noSvelteInternal,
 	noTargetBlank,
+	noTopLevelBrowserGlobals,
 	noTrailingSpaces,
 	noUnknownStyleDirectiveProperty,
+	noUnmatchedSelector,
+	noUnsafeRuneMutation,
+	noUnserializableServerData,
 	noUnusedClassName,
+	noUnusedProps,
 	noUnusedSvelteIgnore,
 	noUselessChildrenSnippet,
 	noUselessMustaches,
 	preferClassDirective,
 	preferConst,
+	preferDerivedOverEffect,
 	preferDestructuredStoreProps,
+	preferEventAttributes,
+	preferSnippets,
 	preferStyleDirective,
+	preferSvelteReactivity,
 	requireEachKey,
 	requireEventDispatcherTypes,
 	requireOptimizedStyleAttribute,
@@ -139,9 +183,15 @@ export const rules = [
 	shorthandAttribute,
 	shorthandDirective,
 	sortAttributes,
+	sortClasses,
 	spacedHtmlComment,
 	system,
 	validCompile,
+	validComponentProps,
+	validComponentStyleProps,
 	validEachKey,
-	validPropNamesInKitPages
+	validLoadDataInKitPages,
+	validPropNamesInKitPages,
+	validRenderTags,
+	validStyleProperties
 ] as RuleModule[];
@@ -44,9 +44,25 @@ export type SvelteContext = (
 		| '+layout.[js|ts]'
 		| '+layout.server.[js|ts]'
 		| '+server.[js|ts]'
+		| 'hooks.server.[js|ts]'
+		| 'hooks.client.[js|ts]'
+		| 'hooks.[js|ts]'
 		| null;
 };
 
+/** The absolute paths of the files configured with `kit.files`. */
+export type SvelteKitFiles = {
+	routes: string;
+	lib: string;
+	hooks: {
+		server: string;
+		client: string;
+		universal: string;
+	};
+	/** The service worker, without the extension. It may also be a directory with `index.js`. */
+	serviceWorker: string;
+};
+
 function getSvelteFileType(filePath: string): SvelteContext['svelteFileType'] {
 	if (filePath.endsWith('.svelte')) {
 		return '.svelte';
@@ -59,8 +75,41 @@ function getSvelteFileType(filePath: string): SvelteContext['svelteFileType'] {
 	return null;
 }
 
-function getSvelteKitFileTypeFromFilePath(filePath: string): SvelteContext['svelteKitFileType'] {
+/**
+ * Gets the SvelteKit file type of the given file.
+ * If `files` is not given, it is judged by only the file name.
+ */
+function getSvelteKitFileTypeFromFilePath(
+	filePath: string,
+	files: SvelteKitFiles | null
+): SvelteContext['svelteKitFileType'] {
 	const fileName = filePath.split('/').pop();
+	if (files) {
+		// Hooks are configured with paths without the extension, e.g. `src/hooks.server`.
+		const filePathWithoutExt = filePath.replace(/\.[jt]s$/u, '');
+		if (filePathWithoutExt === files.hooks.server) return 'hooks.server.[js|ts]';
+		if (filePathWithoutExt === files.hooks.client) return 'hooks.client.[js|ts]';
+		if (filePathWithoutExt === files.hooks.universal) return 'hooks.[js|ts]';
+		if (!filePath.startsWith(files.routes)) return null;
+	} else {
+		switch (fileName) {
+			case 'hooks.server.js':
+			case 'hooks.server.ts': {
+				return 'hooks.server.[js|ts]';
+			}
+			case 'hooks.client.js':
+			case 'hooks.client.ts': {
+				return 'hooks.client.[js|ts]';
+			}
+			case 'hooks.js':
+			case 'hooks.ts': {
+				return 'hooks.[js|ts]';
+			}
+			default: {
+				break;
+			}
+		}
+	}
 	switch (fileName) {
 		case '+page.svelte': {
 			return '+page.svelte';
@@ -138,23 +187,7 @@ function getSvelteKitContext(
 		const result: Pick<SvelteContext, 'svelteKitFileType' | 'svelteKitVersion'> = {
 			svelteKitVersion,
 			// Judge by only file path if it runs in browser.
-			svelteKitFileType: getSvelteKitFileTypeFromFilePath(filePath)
-		};
-		svelteKitContextCache.set(filePath, result);
-		return result;
-	}
-
-	const routes =
-		(
-			context.settings?.svelte?.kit?.files?.routes ??
-			getSourceCode(context).parserServices.svelteParseContext?.svelteConfig?.kit?.files?.routes
-		)?.replace(/^\//, '') ?? 'src/routes';
-	const projectRootDir = getProjectRootDir(getFilename(context)) ?? '';
-
-	if (!filePath.startsWith(path.join(projectRootDir, routes))) {
-		const result: Pick<SvelteContext, 'svelteKitFileType' | 'svelteKitVersion'> = {
-			svelteKitVersion,
-			svelteKitFileType: null
+			svelteKitFileType: getSvelteKitFileTypeFromFilePath(filePath, null)
 		};
 		svelteKitContextCache.set(filePath, result);
 		return result;
@@ -162,12 +195,59 @@ function getSvelteKitContext(
 
 	const result: Pick<SvelteContext, 'svelteKitFileType' | 'svelteKitVersion'> = {
 		svelteKitVersion,
-		svelteKitFileType: getSvelteKitFileTypeFromFilePath(filePath)
+		svelteKitFileType: getSvelteKitFileTypeFromFilePath(filePath, getSvelteKitFiles(context))
 	};
 	svelteKitContextCache.set(filePath, result);
 	return result;
 }
 
+/**
+ * Gets the absolute paths of the SvelteKit files.
+ * It respects `kit.files` in the settings and in `svelte.config.js`.
+ */
+export function getSvelteKitFiles(context: RuleContext): SvelteKitFiles {
+	const settingFiles = context.settings?.svelte?.kit?.files;
+	const configFiles =
+		getSourceCode(context).parserServices.svelteParseContext?.svelteConfig?.kit?.files;
+	const projectRootDir = getProjectRootDir(getFilename(context)) ?? '';
+
+	/** Resolve the given configured path to an absolute path. */
+	function resolve(file: string | undefined, defaultFile: string) {
+		return path.join(projectRootDir, file?.replace(/^\//, '') ?? defaultFile);
+	}
+
+	return {
+		routes: resolve(settingFiles?.routes ?? configFiles?.routes, 'src/routes'),
+		lib: resolve(settingFiles?.lib ?? configFiles?.lib, 'src/lib'),
+		hooks: {
+			server: resolve(
+				settingFiles?.hooks?.server ?? configFiles?.hooks?.server,
+				'src/hooks.server'
+			),
+			client: resolve(
+				settingFiles?.hooks?.client ?? configFiles?.hooks?.client,
+				'src/hooks.client'
+			),
+			universal: resolve(
+				settingFiles?.hooks?.universal ?? configFiles?.hooks?.universal,
+				'src/hooks'
+			)
+		},
+		serviceWorker: resolve(
+			settingFiles?.serviceWorker ?? configFiles?.serviceWorker,
+			'src/service-worker'
+		)
+	};
+}
+
+/**
+ * Gets the absolute path of the SvelteKit routes directory.
+ * It respects `kit.files.routes` in the settings and in `svelte.config.js`.
+ */
+export function getSvelteKitRoutesDir(context: RuleContext): string {
+	return getSvelteKitFiles(context).routes;
+}
+
 const svelteVersionCache = createCache<SvelteContext['svelteVersion']>();
 
 export function getSvelteVersion(filePath: string): SvelteContext['svelteVersion'] {
@@ -0,0 +1 @@
+export { default as Exported } from '../valid/exported01-input.svelte';
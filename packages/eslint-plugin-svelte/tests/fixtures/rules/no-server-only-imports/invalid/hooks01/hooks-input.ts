@@ -0,0 +1,5 @@
+import { env } from '$env/dynamic/private';
+
+export function handleError() {
+	return { message: env.ERROR_MESSAGE };
+}
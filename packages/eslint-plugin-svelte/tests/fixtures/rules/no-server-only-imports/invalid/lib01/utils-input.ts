@@ -0,0 +1,4 @@
+import { db } from './server/db';
+import { PUBLIC_URL } from '$env/static/public';
+
+export const url = `${PUBLIC_URL}/${db}`;
@@ -0,0 +1,8 @@
+import { read } from '$app/server';
+export { db } from '$lib/server';
+export * from './queries.server.js';
+
+export async function load() {
+	const { db } = await import('$lib/server/db');
+	return { db, read };
+}
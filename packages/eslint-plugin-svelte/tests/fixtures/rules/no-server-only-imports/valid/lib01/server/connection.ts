@@ -0,0 +1 @@
+export const connect = (url: string) => url;
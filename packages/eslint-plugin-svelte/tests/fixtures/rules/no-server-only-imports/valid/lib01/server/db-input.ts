@@ -0,0 +1,4 @@
+import { DATABASE_URL } from '$env/static/private';
+import { connect } from './connection';
+
+export const db = connect(DATABASE_URL);
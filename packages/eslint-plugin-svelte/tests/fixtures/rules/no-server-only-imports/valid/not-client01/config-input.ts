@@ -0,0 +1,3 @@
+import { db } from '$lib/server/db';
+
+export default { db };
@@ -0,0 +1,7 @@
+import { API_KEY } from '$env/static/private';
+import { db } from '$lib/server/db';
+import { getPosts } from './posts.server';
+
+export async function load() {
+	return { posts: await getPosts(db, API_KEY) };
+}
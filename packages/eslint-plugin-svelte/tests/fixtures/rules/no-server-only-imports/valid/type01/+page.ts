@@ -0,0 +1,7 @@
+import type { User } from '$lib/server/db';
+import { type Post } from './posts.server';
+export type { Session } from '$lib/server/auth';
+
+export function load(): { user: User | null; posts: Post[] } {
+	return { user: null, posts: [] };
+}
@@ -0,0 +1,7 @@
+export const ssr = true;
+
+const width = window.innerWidth;
+
+export function load() {
+	return { width };
+}
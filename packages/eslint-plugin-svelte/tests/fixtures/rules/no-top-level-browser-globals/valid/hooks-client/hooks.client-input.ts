@@ -0,0 +1,6 @@
+const theme = localStorage.getItem('theme');
+document.documentElement.dataset.theme = theme ?? 'light';
+
+export function handleError({ error }: { error: unknown }) {
+	console.error(error, window.location.href);
+}
@@ -0,0 +1,8 @@
+const sw = self as unknown as ServiceWorkerGlobalScope;
+const origin = location.origin;
+
+sw.addEventListener('fetch', (event) => {
+	if (new URL(event.request.url).origin === origin) {
+		event.respondWith(fetch(event.request));
+	}
+});
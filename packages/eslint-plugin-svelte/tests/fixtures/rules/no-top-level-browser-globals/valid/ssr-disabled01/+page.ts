@@ -0,0 +1,7 @@
+export const ssr = false;
+
+const theme = localStorage.getItem('theme');
+
+export function load() {
+	return { theme };
+}
@@ -0,0 +1,10 @@
+class Failure {
+	message = 'failed';
+}
+
+export const actions = {
+	default: async () => {
+		return { success: true, error: new Failure() };
+	},
+	login: () => ({ callback: () => {} })
+};
@@ -0,0 +1,5 @@
+async function load() {
+	return { error: new Error('foo'), key: Symbol.iterator };
+}
+
+export { load };
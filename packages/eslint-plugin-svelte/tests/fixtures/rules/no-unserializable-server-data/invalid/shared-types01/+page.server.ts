@@ -0,0 +1,32 @@
+type Leaf = { name: string; format: () => string };
+type Level1 = { left: Leaf; right: Leaf };
+type Level2 = { left: Level1; right: Level1 };
+type Level3 = { left: Level2; right: Level2 };
+type Level4 = { left: Level3; right: Level3 };
+type Level5 = { left: Level4; right: Level4 };
+type Level6 = { left: Level5; right: Level5 };
+type Level7 = { left: Level6; right: Level6 };
+type Level8 = { left: Level7; right: Level7 };
+type Level9 = { left: Level8; right: Level8 };
+type Level10 = { left: Level9; right: Level9 };
+type Level11 = { left: Level10; right: Level10 };
+type Level12 = { left: Level11; right: Level11 };
+type Level13 = { left: Level12; right: Level12 };
+type Level14 = { left: Level13; right: Level13 };
+type Level15 = { left: Level14; right: Level14 };
+type Level16 = { left: Level15; right: Level15 };
+type Level17 = { left: Level16; right: Level16 };
+type Level18 = { left: Level17; right: Level17 };
+type Level19 = { left: Level18; right: Level18 };
+type Level20 = { left: Level19; right: Level19 };
+
+declare function getTree(): Level20;
+declare function getCallback(): () => void;
+
+export const load = async () => {
+	return {
+		tree: getTree(),
+		onSave: getCallback(),
+		onReset: getCallback()
+	};
+};
@@ -0,0 +1,25 @@
+import { fail } from '@sveltejs/kit';
+
+class User {}
+
+const settings = {
+	theme: 'dark',
+	save() {}
+};
+
+export function load() {
+	return {
+		user: new User(),
+		settings,
+		id: Symbol('id'),
+		items: [1, () => 2],
+		map: new Map(),
+		User
+	};
+}
+
+export const actions = {
+	async default() {
+		return fail(400, { retry: () => {} });
+	}
+};
@@ -0,0 +1,26 @@
+class User {
+	constructor(public name: string) {}
+}
+
+function getUser() {
+	return new User('foo');
+}
+
+function getTeam() {
+	return { lead: new User('foo'), deputy: new User('bar') };
+}
+
+export const load = async () => {
+	const user = getUser();
+	return {
+		user,
+		team: getTeam(),
+		createdAt: new Date(),
+		format: (value: number) => value.toFixed(2),
+		tags: [Symbol('tag')],
+		settings: {
+			save() {}
+		},
+		handlers: {} as Record<string, () => void>
+	};
+};
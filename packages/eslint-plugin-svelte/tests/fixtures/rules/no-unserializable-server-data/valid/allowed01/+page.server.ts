@@ -0,0 +1,5 @@
+import { Decimal } from './decimal';
+
+export function load() {
+	return { price: new Decimal(1) };
+}
@@ -0,0 +1,3 @@
+export class Decimal {
+	constructor(public value: number) {}
+}
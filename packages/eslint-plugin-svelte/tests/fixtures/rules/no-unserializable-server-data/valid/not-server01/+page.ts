@@ -0,0 +1,6 @@
+class Formatter {}
+
+// Universal `load` functions can return anything.
+export function load() {
+	return { formatter: new Formatter(), format: () => '' };
+}
@@ -0,0 +1,10 @@
+const user = { name: 'foo' };
+
+export async function load({ locals }) {
+	return {
+		user,
+		session: locals.session,
+		createdAt: new Date(),
+		...(locals.extra ?? {})
+	};
+}
@@ -0,0 +1,25 @@
+type Post = { id: number; title: string; tags: Set<string> };
+type Comment = { body: string; replies: Comment[]; parent?: Comment };
+
+async function getPosts(): Promise<Post[]> {
+	return [];
+}
+
+export const load = async () => {
+	return {
+		posts: await getPosts(),
+		comments: [] as Comment[],
+		streamed: getPosts(),
+		now: new Date(),
+		url: new URL('https://example.com'),
+		pattern: /foo/u,
+		counts: new Map<string, number>(),
+		id: 1n,
+		nothing: null,
+		maybe: undefined as string | undefined
+	};
+};
+
+export const actions = {
+	default: async () => ({ success: true })
+};
@@ -0,0 +1 @@
+export const Dict = Map;
@@ -0,0 +1,2 @@
+// Does not export a function.
+module.exports = { order: ['a', 'b'] };
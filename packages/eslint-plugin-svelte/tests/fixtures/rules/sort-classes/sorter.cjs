@@ -0,0 +1,2 @@
+// Sorts class names by their length.
+module.exports = (classNames) => classNames.sort((a, b) => a.length - b.length);
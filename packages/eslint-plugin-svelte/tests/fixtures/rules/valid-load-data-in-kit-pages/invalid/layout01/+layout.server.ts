@@ -0,0 +1,3 @@
+export const load = async () => {
+	return { session: { id: 1 } };
+};
@@ -0,0 +1,6 @@
+export async function load() {
+	if (Math.random() > 0.5) {
+		return { items: [1, 2, 3], total: 3 };
+	}
+	return { items: [], total: 0, empty: true };
+}
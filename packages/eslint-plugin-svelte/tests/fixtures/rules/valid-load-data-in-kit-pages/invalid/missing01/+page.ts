@@ -0,0 +1,6 @@
+export function load() {
+	return {
+		user: { name: 'foo' },
+		posts: [] as string[]
+	};
+}
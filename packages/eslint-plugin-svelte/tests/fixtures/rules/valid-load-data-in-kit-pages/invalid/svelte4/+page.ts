@@ -0,0 +1,4 @@
+export const load = async () => ({
+	title: 'Hello',
+	body: 'World'
+});
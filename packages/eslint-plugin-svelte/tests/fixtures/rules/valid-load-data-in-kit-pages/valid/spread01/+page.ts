@@ -0,0 +1,3 @@
+export function load() {
+	return { user: 'foo', posts: [] as string[] };
+}
@@ -0,0 +1,3 @@
+export function load(): Record<string, unknown> {
+	return { user: 'foo' };
+}
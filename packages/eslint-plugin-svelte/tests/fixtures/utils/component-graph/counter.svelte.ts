@@ -0,0 +1,11 @@
+export const counter = $state({ count: 0 });
+
+export function increment() {
+	counter.count++;
+}
+
+export default class Counter {}
+
+export type CounterState = typeof counter;
+
+export * as utils from './utils.js';
@@ -0,0 +1 @@
+export { default as Exported } from './Exported.svelte';
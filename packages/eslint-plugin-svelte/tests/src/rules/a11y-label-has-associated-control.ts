@@ -0,0 +1,16 @@
+import { RuleTester } from '../../utils/eslint-compat.js';
+import rule from '../../../src/rules/a11y-label-has-associated-control.js';
+import { loadTestCases } from '../../utils/utils.js';
+
+const tester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		sourceType: 'module'
+	}
+});
+
+tester.run(
+	'a11y-label-has-associated-control',
+	rule as any,
+	loadTestCases('a11y-label-has-associated-control')
+);
@@ -0,0 +1,24 @@
+import { RuleTester } from '../../utils/eslint-compat.js';
+import rule from '../../../src/rules/no-unserializable-server-data.js';
+import { loadTestCases, RULES_PROJECT } from '../../utils/utils.js';
+
+const tester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		sourceType: 'module',
+		parserOptions: {
+			parser: {
+				ts: '@typescript-eslint/parser',
+				js: 'espree'
+			},
+			project: RULES_PROJECT,
+			disallowAutomaticSingleRunInference: true
+		}
+	}
+});
+
+tester.run(
+	'no-unserializable-server-data',
+	rule as any,
+	loadTestCases('no-unserializable-server-data')
+);
@@ -0,0 +1,20 @@
+import { RuleTester } from '../../utils/eslint-compat.js';
+import rule from '../../../src/rules/no-unused-props.js';
+import { loadTestCases, RULES_PROJECT } from '../../utils/utils.js';
+
+const tester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		sourceType: 'module',
+		parserOptions: {
+			parser: {
+				ts: '@typescript-eslint/parser',
+				js: 'espree'
+			},
+			project: RULES_PROJECT,
+			disallowAutomaticSingleRunInference: true
+		}
+	}
+});
+
+tester.run('no-unused-props', rule as any, loadTestCases('no-unused-props'));
@@ -0,0 +1,20 @@
+import { RuleTester } from '../../utils/eslint-compat.js';
+import rule from '../../../src/rules/prefer-svelte-reactivity.js';
+import { loadTestCases, RULES_PROJECT } from '../../utils/utils.js';
+
+const tester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		sourceType: 'module',
+		parserOptions: {
+			parser: {
+				ts: '@typescript-eslint/parser',
+				js: 'espree'
+			},
+			project: RULES_PROJECT,
+			disallowAutomaticSingleRunInference: true
+		}
+	}
+});
+
+tester.run('prefer-svelte-reactivity', rule as any, loadTestCases('prefer-svelte-reactivity'));
@@ -0,0 +1,55 @@
+import assert from 'assert';
+import path from 'path';
+import * as svelteParser from 'svelte-eslint-parser';
+import { Linter, RuleTester } from '../../utils/eslint-compat.js';
+import rule from '../../../src/rules/sort-classes.js';
+import { FIXTURES_ROOT, loadTestCases } from '../../utils/utils.js';
+
+const tester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		sourceType: 'module'
+	}
+});
+
+tester.run('sort-classes', rule as any, loadTestCases('sort-classes'));
+
+describe('sort-classes with a sorter that cannot be loaded', () => {
+	/**
+	 * Lints the code with the given sorter.
+	 */
+	function lint(sorter: string) {
+		const linter = new Linter();
+		return linter.verify(
+			'<div class="b a"></div>',
+			{
+				files: ['**'],
+				plugins: { svelte: { rules: { 'sort-classes': rule as any } } },
+				languageOptions: { parser: svelteParser },
+				rules: { 'svelte/sort-classes': ['error', { sorter }] }
+			},
+			path.join(FIXTURES_ROOT, 'rules/sort-classes/valid/test.svelte')
+		);
+	}
+
+	it('throws an error if the sorter is not found', () => {
+		assert.throws(
+			() => lint('../missing-sorter.cjs'),
+			/Failed to load the sorter '\.\.\/missing-sorter\.cjs'/u
+		);
+	});
+
+	it('throws an error if the sorter does not export a function', () => {
+		assert.throws(
+			() => lint('../not-a-sorter.cjs'),
+			/The sorter '\.\.\/not-a-sorter\.cjs' must export a function/u
+		);
+	});
+
+	it('does not throw an error if the sorter is loaded', () => {
+		assert.deepStrictEqual(
+			lint('../sorter.cjs').map((message) => message.messageId),
+			[]
+		);
+	});
+});
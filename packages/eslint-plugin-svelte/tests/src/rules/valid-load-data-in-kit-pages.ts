@@ -0,0 +1,27 @@
+import { RuleTester } from '../../utils/eslint-compat.js';
+import rule from '../../../src/rules/valid-load-data-in-kit-pages.js';
+import { loadTestCases, RULES_PROJECT } from '../../utils/utils.js';
+
+const tester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		sourceType: 'module',
+		parserOptions: {
+			parser: {
+				ts: '@typescript-eslint/parser',
+				js: 'espree'
+			},
+			project: RULES_PROJECT,
+			disallowAutomaticSingleRunInference: true
+		}
+	}
+});
+
+tester.run(
+	'valid-load-data-in-kit-pages',
+	rule as any,
+	loadTestCases('valid-load-data-in-kit-pages', {
+		// `+page.ts` and `+layout.ts` are the `load` files for the pages.
+		filter: (file) => file.endsWith('.svelte')
+	})
+);
@@ -0,0 +1,51 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileCache } from '../../../src/utils/cache.js';
+
+describe('createFileCache', () => {
+	let dir: string;
+	let filePath: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-plugin-svelte-cache-'));
+		filePath = path.join(dir, 'file.txt');
+		fs.writeFileSync(filePath, 'a');
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('returns the cached value while the file is not modified', () => {
+		const cache = createFileCache<string>();
+		cache.set(filePath, 'value');
+		assert.strictEqual(cache.get(filePath), 'value');
+	});
+
+	it('disposes of the cached value when the file is modified', () => {
+		const cache = createFileCache<string>();
+		cache.set(filePath, 'value');
+		const mtime = new Date(fs.statSync(filePath).mtimeMs + 1000);
+		fs.utimesSync(filePath, mtime, mtime);
+		assert.strictEqual(cache.get(filePath), null);
+
+		cache.set(filePath, 'new value');
+		assert.strictEqual(cache.get(filePath), 'new value');
+	});
+
+	it('disposes of the cached value when the file is removed', () => {
+		const cache = createFileCache<string>();
+		cache.set(filePath, 'value');
+		fs.rmSync(filePath);
+		assert.strictEqual(cache.get(filePath), null);
+	});
+
+	it('does not cache the values of files that do not exist', () => {
+		const cache = createFileCache<string>();
+		const missing = path.join(dir, 'missing.txt');
+		cache.set(missing, 'value');
+		assert.strictEqual(cache.get(missing), null);
+	});
+});
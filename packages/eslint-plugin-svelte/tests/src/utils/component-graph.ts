@@ -0,0 +1,313 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as svelteParser from 'svelte-eslint-parser';
+import { Linter } from '../../utils/eslint-compat.js';
+import type { RuleContext } from '../../../src/types.js';
+import { getTypeScript } from '../../../src/utils/ts-utils/index.js';
+import type { TypeScript } from '../../../src/utils/ts-utils/index.js';
+import {
+	getComponentBindings,
+	getComponentDefinition,
+	getComponentSnippetParams,
+	getComponentStyleProps,
+	getModuleDefinition
+} from '../../../src/utils/component-graph.js';
+import { resolveSvelteImport } from '../../../src/utils/component-resolver.js';
+
+const __dirname = path.dirname(new URL(import.meta.url).pathname);
+const FIXTURES_ROOT = path.resolve(__dirname, '../../fixtures/utils/component-graph');
+
+/**
+ * Runs the given function with the rule context of a file in the fixtures.
+ */
+function withContext<T>(fn: (context: RuleContext, ts: TypeScript) => T): T {
+	let result: { value: T } | null = null;
+	const linter = new Linter();
+	linter.verify(
+		'<script></script>',
+		[
+			{
+				files: ['**'],
+				plugins: {
+					test: {
+						rules: {
+							probe: {
+								create(context: RuleContext) {
+									result = { value: fn(context, getTypeScript(context)!) };
+									return {};
+								}
+							}
+						}
+					}
+				},
+				languageOptions: {
+					parser: svelteParser,
+					parserOptions: {
+						parser: { ts: '@typescript-eslint/parser' }
+					}
+				},
+				rules: {
+					'test/probe': 'error'
+				}
+			}
+		] as never,
+		path.join(FIXTURES_ROOT, 'Probe.svelte')
+	);
+	assert.ok(result, 'The probe rule was not run.');
+	return (result as { value: T }).value;
+}
+
+describe('component-graph', () => {
+	describe('getComponentDefinition', () => {
+		it('collects the props of the component', () => {
+			const definition = withContext((context, ts) =>
+				getComponentDefinition(context, ts, path.join(FIXTURES_ROOT, 'Child.svelte'))
+			);
+			assert.ok(definition);
+			assert.strictEqual(definition.runes, true);
+			assert.strictEqual(definition.closed, true);
+			assert.deepStrictEqual(
+				[...definition.props.values()].map(({ name, required, bindable }) => ({
+					name,
+					required,
+					bindable
+				})),
+				[
+					{ name: 'value', required: false, bindable: true },
+					{ name: 'label', required: true, bindable: false },
+					{ name: 'disabled', required: false, bindable: false }
+				]
+			);
+		});
+
+		it('does not know whether the props are bindable if they are not destructured', () => {
+			const definition = withContext((context, ts) =>
+				getComponentDefinition(context, ts, path.join(FIXTURES_ROOT, 'Rest.svelte'))
+			);
+			assert.ok(definition);
+			assert.strictEqual(definition.props.get('value')?.bindable, null);
+		});
+
+		it('returns null for files that do not exist', () => {
+			const definition = withContext((context, ts) =>
+				getComponentDefinition(context, ts, path.join(FIXTURES_ROOT, 'Missing.svelte'))
+			);
+			assert.strictEqual(definition, null);
+		});
+
+		it('collects the events and the exports of legacy components', () => {
+			const definition = withContext((context, ts) =>
+				getComponentDefinition(context, ts, path.join(FIXTURES_ROOT, 'Events.svelte'))
+			);
+			assert.ok(definition);
+			assert.deepStrictEqual(definition.events, new Set(['blur', 'click', 'change']));
+			assert.deepStrictEqual([...definition.props.keys()], ['value']);
+			assert.deepStrictEqual(definition.exports, new Set(['VERSION', 'focus']));
+			assert.deepStrictEqual(definition.moduleExports, new Set(['shared', 'helper']));
+		});
+
+		it('does not know the events whose names are dynamic', () => {
+			const definition = withContext((context, ts) =>
+				getComponentDefinition(context, ts, path.join(FIXTURES_ROOT, 'DynamicEvents.svelte'))
+			);
+			assert.ok(definition);
+			assert.strictEqual(definition.events, null);
+		});
+
+		it('collects the snippets and the exports of runes components', () => {
+			const definition = withContext((context, ts) =>
+				getComponentDefinition(context, ts, path.join(FIXTURES_ROOT, 'Snippets.svelte'))
+			);
+			assert.ok(definition);
+			assert.strictEqual(definition.closed, true);
+			assert.deepStrictEqual(definition.snippets, new Set(['header', 'footer', 'children', 'row']));
+			assert.deepStrictEqual(definition.exports, new Set(['reset', 'handle']));
+			assert.deepStrictEqual(definition.events, new Set());
+		});
+	});
+
+	describe('getModuleDefinition', () => {
+		it('collects the exports of the module', () => {
+			const definition = withContext((_context, ts) =>
+				getModuleDefinition(ts, path.join(FIXTURES_ROOT, 'counter.svelte.ts'))
+			);
+			assert.ok(definition);
+			assert.strictEqual(definition.closed, true);
+			assert.deepStrictEqual(
+				definition.exports,
+				new Set(['counter', 'increment', 'default', 'utils'])
+			);
+		});
+
+		it('does not know all exports of the modules that re-export other modules', () => {
+			const definition = withContext((_context, ts) =>
+				getModuleDefinition(ts, path.join(FIXTURES_ROOT, 'utils.js'))
+			);
+			assert.ok(definition);
+			assert.strictEqual(definition.closed, false);
+		});
+	});
+
+	describe('resolveSvelteImport', () => {
+		const importer = path.join(FIXTURES_ROOT, 'Probe.svelte');
+
+		it('resolves `.svelte.js` and `.svelte.ts` modules', () => {
+			const counter = path.join(FIXTURES_ROOT, 'counter.svelte.ts');
+			assert.strictEqual(resolveSvelteImport('./counter.svelte', importer, ''), counter);
+			assert.strictEqual(resolveSvelteImport('./counter.svelte.js', importer, ''), counter);
+			assert.strictEqual(resolveSvelteImport('./counter.svelte.ts', importer, ''), counter);
+		});
+
+		it('prefers components to modules', () => {
+			assert.strictEqual(
+				resolveSvelteImport('./Child.svelte', importer, ''),
+				path.join(FIXTURES_ROOT, 'Child.svelte')
+			);
+		});
+	});
+
+	describe('getComponentStyleProps', () => {
+		it('collects the custom properties from the styles of the component and its children', () => {
+			const styleProps = withContext((context) =>
+				getComponentStyleProps(context, path.join(FIXTURES_ROOT, 'Parent.svelte'))
+			);
+			assert.ok(styleProps);
+			assert.strictEqual(styleProps.closed, true);
+			assert.deepStrictEqual(
+				[...styleProps.used].sort(),
+				['--child-color', '--inline-gap', '--local', '--parent-padding'].sort()
+			);
+			assert.deepStrictEqual(
+				[...styleProps.required].sort(),
+				['--inline-gap', '--parent-padding'].sort()
+			);
+		});
+	});
+
+	describe('getComponentSnippetParams', () => {
+		it('collects the arguments of each rendered snippet', () => {
+			const params = withContext((context) =>
+				getComponentSnippetParams(context, path.join(FIXTURES_ROOT, 'Snippets.svelte'))
+			);
+			assert.deepStrictEqual(
+				params,
+				new Map([
+					['header', ['title']],
+					['row', ['title']],
+					['children', []],
+					['footer', []]
+				])
+			);
+		});
+
+		it('returns null for components with slots', () => {
+			const params = withContext((context) =>
+				getComponentSnippetParams(context, path.join(FIXTURES_ROOT, 'Slots.svelte'))
+			);
+			assert.strictEqual(params, null);
+		});
+	});
+
+	describe('getComponentBindings', () => {
+		it('collects the props bound by the consumers in the project', () => {
+			const bindings = withContext((context, ts) =>
+				getComponentBindings(context, ts, path.join(FIXTURES_ROOT, 'Child.svelte'), FIXTURES_ROOT)
+			);
+			assert.deepStrictEqual(bindings, new Set(['value']));
+		});
+
+		it('returns null for components that are re-exported', () => {
+			const bindings = withContext((context, ts) =>
+				getComponentBindings(
+					context,
+					ts,
+					path.join(FIXTURES_ROOT, 'Exported.svelte'),
+					FIXTURES_ROOT
+				)
+			);
+			assert.strictEqual(bindings, null);
+		});
+
+		it('returns null for components that are not imported', () => {
+			const bindings = withContext((context, ts) =>
+				getComponentBindings(context, ts, path.join(FIXTURES_ROOT, 'Slots.svelte'), FIXTURES_ROOT)
+			);
+			assert.strictEqual(bindings, null);
+		});
+
+		describe('with modified consumers', () => {
+			let dir: string;
+
+			beforeEach(() => {
+				dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eslint-plugin-svelte-graph-'));
+				fs.writeFileSync(
+					path.join(dir, 'Toggle.svelte'),
+					'<script>let { open = $bindable(), pressed = $bindable() } = $props();</script>'
+				);
+				writeConsumer('Consumer.svelte', '<Toggle bind:open />');
+			});
+
+			afterEach(() => {
+				fs.rmSync(dir, { recursive: true, force: true });
+			});
+
+			/**
+			 * Writes a consumer of `Toggle.svelte` and moves its modification time forward.
+			 */
+			function writeConsumer(name: string, markup: string) {
+				const filePath = path.join(dir, name);
+				const mtime = fs.existsSync(filePath)
+					? new Date(fs.statSync(filePath).mtimeMs + 1000)
+					: new Date();
+				fs.writeFileSync(
+					filePath,
+					`<script>import Toggle from './Toggle.svelte';</script>\n${markup}`
+				);
+				fs.utimesSync(filePath, mtime, mtime);
+			}
+
+			/**
+			 * Gets the bindings of `Toggle.svelte`.
+			 */
+			function getToggleBindings() {
+				return withContext((context, ts) =>
+					getComponentBindings(context, ts, path.join(dir, 'Toggle.svelte'), dir)
+				);
+			}
+
+			it('finds the bindings added to a consumer', () => {
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open']));
+				writeConsumer('Consumer.svelte', '<Toggle bind:open bind:pressed />');
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open', 'pressed']));
+			});
+
+			it('finds the bindings of a new consumer', () => {
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open']));
+				writeConsumer('NewConsumer.svelte', '<Toggle bind:pressed />');
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open', 'pressed']));
+			});
+
+			it('reuses the index for the consumers that are not modified', () => {
+				const filePath = path.join(dir, 'Consumer.svelte');
+				const { mtime } = fs.statSync(filePath);
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open']));
+				writeConsumer('Consumer.svelte', '<Toggle bind:pressed />');
+				fs.utimesSync(filePath, mtime, mtime);
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open']));
+			});
+
+			it('ignores the consumers in build outputs and hidden directories', () => {
+				for (const outDir of ['dist', 'build', '.svelte-kit']) {
+					fs.mkdirSync(path.join(dir, outDir));
+					fs.writeFileSync(
+						path.join(dir, outDir, 'Consumer.svelte'),
+						`<script>import Toggle from '../Toggle.svelte';</script>\n<Toggle bind:pressed />`
+					);
+				}
+				assert.deepStrictEqual(getToggleBindings(), new Set(['open']));
+			});
+		});
+	});
+});
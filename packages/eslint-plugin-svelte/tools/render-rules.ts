@@ -5,6 +5,7 @@ const categories = [
 	'Possible Errors',
 	'Security Vulnerability',
 	'Best Practices',
+	'Accessibility',
 	'Stylistic Issues',
 	'Extension Rules',
 	'SvelteKit',
@@ -16,6 +17,8 @@ const descriptions: Record<(typeof categories)[number], string> = {
 	'Possible Errors': 'These rules relate to possible syntax or logic errors in Svelte code:',
 	'Security Vulnerability': 'These rules relate to security vulnerabilities in Svelte code:',
 	'Best Practices': 'These rules relate to better ways of doing things to help you avoid problems:',
+	Accessibility:
+		'These rules relate to accessibility of the markup in Svelte components. They do not check the HTML of snippets created with `createRawSnippet()` in `.svelte.[js|ts]` modules.',
 	'Stylistic Issues': 'These rules relate to style guidelines, and are therefore quite subjective:',
 	'Extension Rules':
 		'These rules extend the rules provided by ESLint itself, or other plugins to work well in Svelte:',